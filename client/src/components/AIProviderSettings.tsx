@@ -3,31 +3,141 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import { apiRequest } from "@/lib/queryClient";
+import {
+  adminRequest,
+  getAdminToken,
+  saveProviderKey,
+  setAdminToken,
+  type ProviderCredentialsResponse
+} from "@/lib/adminApi";
 import { useToast } from "@/hooks/use-toast";
+import type { Session } from "@shared/schema";
 
 interface AIProviderSettingsProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
+  session: Session;
 }
 
-export default function AIProviderSettings({ open, onOpenChange }: AIProviderSettingsProps) {
+interface ProviderInfo {
+  id: string;
+  name: string;
+  configured: boolean;
+}
+
+export default function AIProviderSettings({ open, onOpenChange, session }: AIProviderSettingsProps) {
   const [geminiKey, setGeminiKey] = useState("");
   const [huggingFaceKey, setHuggingFaceKey] = useState("");
+  const [adminToken, setAdminTokenState] = useState(getAdminToken);
   const [testMessage, setTestMessage] = useState("مرحباً، كيف حالك؟");
   const [testResults, setTestResults] = useState<{[key: string]: {success: boolean, response?: string, error?: string}}>({});
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch available AI providers
-  const { data: providers = [] } = useQuery<Array<{name: string; configured: boolean}>>({
+  const { data: providers = [] } = useQuery<ProviderInfo[]>({
     queryKey: ['/api/ai-providers'],
     enabled: open
   });
 
+  // Latest pinning state of the current session
+  const { data: currentSession = session } = useQuery<Session>({
+    queryKey: ['/api/sessions', session.id],
+    enabled: open
+  });
+  const pinnedProviderId = currentSession.pinnedProviderId;
+  const allowFallback = currentSession.allowProviderFallback ?? true;
+
+  const pinProviderMutation = useMutation({
+    mutationFn: async (settings: { providerId: string | null; allowFallback: boolean }) => {
+      const response = await apiRequest('PUT', `/api/sessions/${session.id}/provider`, settings);
+      return response.json() as Promise<Session>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(['/api/sessions', session.id], updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ تعذر تثبيت المزود",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  // Masked view of the keys the server holds; needs the admin token
+  const { data: credentialsData, error: credentialsError } = useQuery<ProviderCredentialsResponse>({
+    queryKey: ['/api/provider-credentials', adminToken],
+    queryFn: async () => {
+      const response = await adminRequest('GET', '/api/provider-credentials');
+      return response.json();
+    },
+    enabled: open && !!adminToken
+  });
+  const credentials = credentialsData?.credentials ?? [];
+
+  const refreshProviders = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/ai-providers'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/provider-credentials'] });
+  };
+
+  const saveKeysMutation = useMutation({
+    mutationFn: async (keys: Array<{ providerId: string; apiKey: string }>) => {
+      for (const { providerId, apiKey } of keys) {
+        try {
+          await saveProviderKey(providerId, apiKey);
+        } catch (error: any) {
+          throw new Error(`${getProviderName(providerId)}: ${error.message}`);
+        }
+      }
+    },
+    onSuccess: () => {
+      setGeminiKey("");
+      setHuggingFaceKey("");
+      refreshProviders();
+      toast({
+        title: "💾 تم الحفظ",
+        description: "تم التحقق من مفاتيح API وحفظها مشفرة على الخادم."
+      });
+    },
+    onError: (error: Error) => {
+      refreshProviders();
+      toast({
+        title: "❌ تعذر حفظ المفتاح",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const revokeKeyMutation = useMutation({
+    mutationFn: async (providerId: string) => {
+      await adminRequest('DELETE', `/api/provider-credentials/${providerId}`);
+    },
+    onSuccess: (_data, providerId) => {
+      refreshProviders();
+      toast({
+        title: "🗑️ تم إلغاء المفتاح",
+        description: `تم حذف مفتاح ${getProviderName(providerId)} المحفوظ`
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "❌ تعذر إلغاء المفتاح",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const getProviderName = (providerId: string) =>
+    providers.find(p => p.id === providerId)?.name || providerId;
+
   // Test AI provider mutation
   const testProviderMutation = useMutation({
-    mutationFn: async (providerName: string) => {
+    mutationFn: async (providerId: string) => {
       const testEmotions = {
         happy: 0.8,
         sad: 0.1,
@@ -42,7 +152,7 @@ export default function AIProviderSettings({ open, onOpenChange }: AIProviderSet
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          provider: providerName,
+          provider: providerId,
           message: testMessage,
           emotions: testEmotions
         })
@@ -52,45 +162,57 @@ export default function AIProviderSettings({ open, onOpenChange }: AIProviderSet
         throw new Error(`HTTP ${response.status}`);
       }
 
-      return response.json();
+      const result = await response.json();
+      if (!result.success) {
+        throw new Error(result.error || 'Test failed');
+      }
+      return result;
     },
-    onSuccess: (data, providerName) => {
+    onSuccess: (data, providerId) => {
       setTestResults(prev => ({
         ...prev,
-        [providerName]: { success: true, response: data.response }
+        [providerId]: { success: true, response: data.response }
       }));
       toast({
         title: "✅ نجح الاختبار",
-        description: `${providerName} يعمل بشكل صحيح`
+        description: `${getProviderName(providerId)} يعمل بشكل صحيح`
       });
     },
-    onError: (error: any, providerName) => {
+    onError: (error: any, providerId) => {
       setTestResults(prev => ({
         ...prev,
-        [providerName]: { success: false, error: error.message }
+        [providerId]: { success: false, error: error.message }
       }));
       toast({
         title: "❌ فشل الاختبار",
-        description: `${providerName}: ${error.message}`,
+        description: `${getProviderName(providerId)}: ${error.message}`,
         variant: "destructive"
       });
     }
   });
 
-  const handleTestProvider = (providerName: string) => {
-    testProviderMutation.mutate(providerName);
+  const handleTestProvider = (providerId: string) => {
+    testProviderMutation.mutate(providerId);
   };
 
-  const handleSaveKeys = () => {
-    // In a real app, you'd save these to secure storage
-    // For now, we'll just show a toast
-    toast({
-      title: "💾 تم الحفظ",
-      description: "تم حفظ مفاتيح API بنجاح. سيتم تطبيقها في الجلسة التالية."
+  const handleTogglePin = (providerId: string) => {
+    pinProviderMutation.mutate({
+      providerId: pinnedProviderId === providerId ? null : providerId,
+      allowFallback
     });
-    
-    queryClient.invalidateQueries({ queryKey: ['/api/ai-providers'] });
-    onOpenChange(false);
+  };
+
+  const handleAdminTokenChange = (token: string) => {
+    setAdminToken(token);
+    setAdminTokenState(token);
+  };
+
+  const handleSaveKeys = () => {
+    const keys = [
+      { providerId: 'gemini', apiKey: geminiKey.trim() },
+      { providerId: 'huggingface', apiKey: huggingFaceKey.trim() }
+    ].filter(key => key.apiKey);
+    saveKeysMutation.mutate(keys);
   };
 
   const getProviderIcon = (name: string) => {
@@ -131,7 +253,7 @@ export default function AIProviderSettings({ open, onOpenChange }: AIProviderSet
             </h3>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
               {providers.map(provider => (
-                <div key={provider.name} className="flex items-center justify-between p-2 bg-black/20 rounded">
+                <div key={provider.id} className="flex items-center justify-between p-2 bg-black/20 rounded">
                   <div className="flex items-center gap-2">
                     <i className={`bi ${getProviderIcon(provider.name)} ${getProviderColor(provider.name, provider.configured)}`}></i>
                     <span className="text-sm text-gray-300">{provider.name}</span>
@@ -140,14 +262,24 @@ export default function AIProviderSettings({ open, onOpenChange }: AIProviderSet
                     <span className={`text-xs ${provider.configured ? 'text-success' : 'text-gray-500'}`}>
                       {provider.configured ? 'متصل' : 'غير مُعد'}
                     </span>
+                    <Button
+                      size="sm"
+                      variant={pinnedProviderId === provider.id ? "default" : "outline"}
+                      onClick={() => handleTogglePin(provider.id)}
+                      disabled={pinProviderMutation.isPending}
+                      className="text-xs px-2 py-1 h-auto"
+                      title={pinnedProviderId === provider.id ? "إلغاء التثبيت" : "تثبيت لهذه الجلسة"}
+                    >
+                      <i className={`bi ${pinnedProviderId === provider.id ? 'bi-pin-angle-fill' : 'bi-pin-angle'}`}></i>
+                    </Button>
                     <Button
                       size="sm"
                       variant="outline"
-                      onClick={() => handleTestProvider(provider.name)}
+                      onClick={() => handleTestProvider(provider.id)}
                       disabled={testProviderMutation.isPending}
                       className="text-xs px-2 py-1 h-auto"
                     >
-                      {testProviderMutation.isPending && testProviderMutation.variables === provider.name ? (
+                      {testProviderMutation.isPending && testProviderMutation.variables === provider.id ? (
                         <i className="bi bi-spinner animate-spin"></i>
                       ) : (
                         "اختبار"
@@ -159,6 +291,33 @@ export default function AIProviderSettings({ open, onOpenChange }: AIProviderSet
             </div>
           </div>
 
+          {/* Session Provider Pinning */}
+          <div className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 p-4 rounded-lg border border-purple-500/20 space-y-3">
+            <h3 className="font-semibold text-white flex items-center gap-2">
+              <i className="bi bi-pin-angle"></i>
+              مزود هذه الجلسة
+            </h3>
+            <p className="text-sm text-gray-300">
+              {pinnedProviderId
+                ? `الجلسة مثبتة على: ${getProviderName(pinnedProviderId)}`
+                : 'تلقائي - يُستخدم أول مزود متاح'}
+            </p>
+            <div className="flex items-center justify-between">
+              <label htmlFor="allow-provider-fallback" className="text-sm text-gray-300">
+                السماح بالمزودين الاحتياطيين عند فشل المزود المثبت
+              </label>
+              <Switch
+                id="allow-provider-fallback"
+                checked={allowFallback}
+                disabled={!pinnedProviderId || pinProviderMutation.isPending}
+                onCheckedChange={(checked) => pinProviderMutation.mutate({
+                  providerId: pinnedProviderId ?? null,
+                  allowFallback: checked
+                })}
+              />
+            </div>
+          </div>
+
           {/* Test Results */}
           {Object.keys(testResults).length > 0 && (
             <div className="bg-gradient-to-r from-green-500/10 to-blue-500/10 p-4 rounded-lg border border-green-500/20">
@@ -168,7 +327,7 @@ export default function AIProviderSettings({ open, onOpenChange }: AIProviderSet
                   <div key={provider} className="p-3 bg-black/20 rounded text-sm">
                     <div className="flex items-center gap-2 mb-2">
                       <i className={`bi ${result.success ? 'bi-check-circle text-success' : 'bi-x-circle text-red-400'}`}></i>
-                      <span className="font-medium text-gray-200">{provider}</span>
+                      <span className="font-medium text-gray-200">{getProviderName(provider)}</span>
                     </div>
                     {result.success ? (
                       <p className="text-gray-300 text-xs bg-green-500/10 p-2 rounded">
@@ -204,6 +363,57 @@ export default function AIProviderSettings({ open, onOpenChange }: AIProviderSet
             </h3>
             
             <div className="space-y-3">
+              <div>
+                <label className="text-sm font-medium text-gray-300 mb-2 block">
+                  رمز المشرف
+                </label>
+                <Input
+                  type="password"
+                  value={adminToken}
+                  onChange={(e) => handleAdminTokenChange(e.target.value)}
+                  placeholder="ADMIN_TOKEN"
+                  className="bg-gray-800/50 border-gray-600"
+                  dir="ltr"
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  مطلوب لحفظ المفاتيح أو إلغائها. يُحفظ في هذه النافذة فقط.
+                </p>
+                {credentialsError && (
+                  <p className="text-xs text-red-300 mt-1">{(credentialsError as Error).message}</p>
+                )}
+                {credentialsData && !credentialsData.storageEnabled && (
+                  <p className="text-xs text-orange-400 mt-1">
+                    تخزين المفاتيح غير مفعل على الخادم (CREDENTIALS_ENCRYPTION_KEY)
+                  </p>
+                )}
+              </div>
+
+              {credentials.length > 0 && (
+                <div className="space-y-2">
+                  {credentials.map(credential => (
+                    <div key={credential.providerId} className="flex items-center justify-between p-2 bg-black/20 rounded text-sm">
+                      <div className="flex items-center gap-2">
+                        <span className="text-gray-300">{getProviderName(credential.providerId)}</span>
+                        <span className="text-gray-400 font-mono" dir="ltr">{credential.maskedKey}</span>
+                      </div>
+                      {credential.source === 'stored' ? (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => revokeKeyMutation.mutate(credential.providerId)}
+                          disabled={revokeKeyMutation.isPending}
+                          className="text-xs px-2 py-1 h-auto text-red-300"
+                        >
+                          إلغاء المفتاح
+                        </Button>
+                      ) : (
+                        <span className="text-xs text-gray-500">من متغيرات البيئة</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div>
                 <label className="text-sm font-medium text-gray-300 mb-2 block">
                   مفتاح Google Gemini (مجاني)
@@ -252,9 +462,13 @@ export default function AIProviderSettings({ open, onOpenChange }: AIProviderSet
             <Button
               onClick={handleSaveKeys}
               className="flex-1 bg-gradient-to-r from-primary to-secondary"
-              disabled={!geminiKey && !huggingFaceKey}
+              disabled={(!geminiKey && !huggingFaceKey) || !adminToken || saveKeysMutation.isPending}
             >
-              <i className="bi bi-check-lg ml-2"></i>
+              {saveKeysMutation.isPending ? (
+                <i className="bi bi-arrow-clockwise animate-spin ml-2"></i>
+              ) : (
+                <i className="bi bi-check-lg ml-2"></i>
+              )}
               حفظ الإعدادات
             </Button>
           </div>
@@ -1,38 +1,62 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { adminRequest } from "@/lib/adminApi";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Progress } from "@/components/ui/progress";
 import { CheckCircle, XCircle, Clock, Wifi, WifiOff, RefreshCw, Activity } from "lucide-react";
 
+interface ProviderTelemetry {
+  successCount: number;
+  errorCount: number;
+  latency: {
+    count: number;
+    meanMs: number | null;
+    p50Ms: number | null;
+    p95Ms: number | null;
+  };
+  lastSuccessAt: string | null;
+  lastError: { message: string; kind: string; at: string } | null;
+}
+
 interface APIProvider {
+  id: string;
   name: string;
   configured: boolean;
-  status: 'active' | 'inactive' | 'error' | 'testing';
+  status: 'active' | 'inactive' | 'error';
   description: string;
-  lastTest?: string;
-  responseTime?: number;
-  errorCount?: number;
+  circuit: {
+    state: 'closed' | 'open' | 'half_open';
+    consecutiveFailures: number;
+    openedAt: string | null;
+    nextProbeAt: string | null;
+  };
+  telemetry: ProviderTelemetry;
 }
 
+const formatTime = (iso: string) => new Date(iso).toLocaleTimeString('ar-SA');
+
 export default function APIHealthMonitor() {
   const [isTestingAll, setIsTestingAll] = useState(false);
   const [testResults, setTestResults] = useState<Record<string, any>>({});
 
   // Fetch providers status
-  const { data: providers = [], refetch, isLoading } = useQuery<APIProvider[]>({
+  const { data: providers = [], refetch, isLoading, dataUpdatedAt } = useQuery<APIProvider[]>({
     queryKey: ['/api/ai-providers'],
     refetchInterval: 30000, // Check every 30 seconds
   });
 
-  const testProvider = async (providerName: string) => {
-    setTestResults(prev => ({ ...prev, [providerName]: { testing: true } }));
+  const configuredProviders = providers.filter(p => p.configured);
+  const totalSuccesses = providers.reduce((sum, p) => sum + p.telemetry.successCount, 0);
+  const totalCalls = providers.reduce((sum, p) => sum + p.telemetry.successCount + p.telemetry.errorCount, 0);
+
+  const testProvider = async (providerId: string) => {
+    setTestResults(prev => ({ ...prev, [providerId]: { testing: true } }));
     
     try {
-      const response = await apiRequest('POST', '/api/test-ai-provider', {
-        provider: providerName,
+      const response = await adminRequest('POST', '/api/test-ai-provider', {
+        provider: providerId,
         message: "اختبار سريع",
         emotions: { happy: 70, neutral: 30 }
       });
@@ -41,7 +65,7 @@ export default function APIHealthMonitor() {
       
       setTestResults(prev => ({
         ...prev,
-        [providerName]: {
+        [providerId]: {
           success: result.success,
           responseTime: result.responseTime || 0,
           provider: result.provider,
@@ -49,10 +73,11 @@ export default function APIHealthMonitor() {
           timestamp: new Date().toISOString()
         }
       }));
+      refetch();
     } catch (error: any) {
       setTestResults(prev => ({
         ...prev,
-        [providerName]: {
+        [providerId]: {
           success: false,
           error: error.message,
           timestamp: new Date().toISOString()
@@ -67,7 +92,7 @@ export default function APIHealthMonitor() {
     
     for (const provider of providers) {
       if (provider.configured) {
-        await testProvider(provider.name);
+        await testProvider(provider.id);
         // Small delay between tests
         await new Promise(resolve => setTimeout(resolve, 1000));
       }
@@ -77,7 +102,7 @@ export default function APIHealthMonitor() {
   };
 
   const getStatusIcon = (provider: APIProvider) => {
-    const testResult = testResults[provider.name];
+    const testResult = testResults[provider.id];
     
     if (testResult?.testing || isTestingAll) {
       return <RefreshCw className="w-4 h-4 animate-spin text-info" />;
@@ -89,13 +114,17 @@ export default function APIHealthMonitor() {
         : <XCircle className="w-4 h-4 text-destructive" />;
     }
     
+    if (provider.status === 'error') {
+      return <XCircle className="w-4 h-4 text-destructive" />;
+    }
+
     return provider.configured 
       ? <Wifi className="w-4 h-4 text-primary" />
       : <WifiOff className="w-4 h-4 text-muted-foreground" />;
   };
 
   const getStatusBadge = (provider: APIProvider) => {
-    const testResult = testResults[provider.name];
+    const testResult = testResults[provider.id];
     
     if (testResult?.testing || isTestingAll) {
       return <Badge variant="secondary" className="text-xs">جاري الاختبار...</Badge>;
@@ -107,6 +136,25 @@ export default function APIHealthMonitor() {
         : <Badge variant="destructive" className="text-xs">خطأ ✗</Badge>;
     }
     
+    if (provider.configured && provider.circuit.state !== 'closed') {
+      const nextProbe = provider.circuit.nextProbeAt
+        ? formatTime(provider.circuit.nextProbeAt)
+        : null;
+      return (
+        <Badge
+          variant="destructive"
+          className="text-xs"
+          title={nextProbe ? `المحاولة التالية: ${nextProbe}` : undefined}
+        >
+          {provider.circuit.state === 'open' ? 'متوقف مؤقتاً' : 'قيد الفحص'}
+        </Badge>
+      );
+    }
+
+    if (provider.status === 'error') {
+      return <Badge variant="destructive" className="text-xs">فشل آخر طلب</Badge>;
+    }
+
     return provider.configured 
       ? <Badge variant="outline" className="text-xs">جاهز</Badge>
       : <Badge variant="secondary" className="text-xs">غير مُعد</Badge>;
@@ -132,7 +180,7 @@ export default function APIHealthMonitor() {
           {/* Test All Button */}
           <div className="flex justify-between items-center">
             <p className="text-sm text-muted-foreground">
-              آخر فحص: {new Date().toLocaleTimeString('ar-SA')}
+              آخر تحديث: {dataUpdatedAt ? new Date(dataUpdatedAt).toLocaleTimeString('ar-SA') : '-'}
             </p>
             <div className="flex gap-2">
               <Button
@@ -159,7 +207,10 @@ export default function APIHealthMonitor() {
           {/* Progress Bar for Testing */}
           {isTestingAll && (
             <div className="space-y-2">
-              <Progress value={Math.random() * 100} className="w-full" />
+              <Progress
+                value={(Object.values(testResults).filter(r => !r.testing).length / Math.max(1, configuredProviders.length)) * 100}
+                className="w-full"
+              />
               <p className="text-xs text-center text-muted-foreground">
                 جاري اختبار جميع المزودين...
               </p>
@@ -169,11 +220,11 @@ export default function APIHealthMonitor() {
           {/* Providers List */}
           <div className="space-y-3">
             {providers.map((provider) => {
-              const testResult = testResults[provider.name];
+              const testResult = testResults[provider.id];
               
               return (
                 <div
-                  key={provider.name}
+                  key={provider.id}
                   className="p-4 rounded-lg border border-border/50 bg-muted/20 card-hover"
                 >
                   <div className="flex items-center justify-between">
@@ -192,7 +243,7 @@ export default function APIHealthMonitor() {
                     <div className="flex items-center gap-2">
                       {getStatusBadge(provider)}
                       <Button
-                        onClick={() => testProvider(provider.name)}
+                        onClick={() => testProvider(provider.id)}
                         variant="outline"
                         size="sm"
                         disabled={!provider.configured || testResult?.testing}
@@ -202,6 +253,24 @@ export default function APIHealthMonitor() {
                     </div>
                   </div>
 
+                  {/* Health from real traffic */}
+                  {provider.telemetry.latency.count > 0 && (
+                    <div className="mt-3 grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                      <span>نجاح: {provider.telemetry.successCount} • أخطاء: {provider.telemetry.errorCount}</span>
+                      <span>
+                        زمن الاستجابة: {provider.telemetry.latency.meanMs}ms (p95 ≤ {provider.telemetry.latency.p95Ms}ms)
+                      </span>
+                      <span>
+                        آخر نجاح: {provider.telemetry.lastSuccessAt ? formatTime(provider.telemetry.lastSuccessAt) : '-'}
+                      </span>
+                      {provider.telemetry.lastError && (
+                        <span className="text-destructive truncate" title={provider.telemetry.lastError.message}>
+                          آخر خطأ ({formatTime(provider.telemetry.lastError.at)}): {provider.telemetry.lastError.message}
+                        </span>
+                      )}
+                    </div>
+                  )}
+
                   {/* Test Results */}
                   {testResult && !testResult.testing && (
                     <div className="mt-3 p-3 rounded-md bg-background/50">
@@ -238,9 +307,9 @@ export default function APIHealthMonitor() {
               <span className="text-sm font-medium">ملخص الحالة</span>
             </div>
             <div className="text-xs text-muted-foreground space-y-1">
-              <p>المزودين المتاحين: {providers.filter(p => p.configured).length}</p>
-              <p>المزودين العاملين: {Object.values(testResults).filter(r => r.success).length}</p>
-              <p>معدل النجاح: {providers.length > 0 ? Math.round((Object.values(testResults).filter(r => r.success).length / providers.filter(p => p.configured).length) * 100) || 0 : 0}%</p>
+              <p>المزودين المتاحين: {configuredProviders.length}</p>
+              <p>المزودين العاملين: {providers.filter(p => p.status === 'active').length}</p>
+              <p>معدل النجاح: {totalCalls > 0 ? Math.round((totalSuccesses / totalCalls) * 100) : 0}% ({totalCalls} طلب)</p>
             </div>
           </div>
         </div>
@@ -2,8 +2,9 @@ import { useState, useEffect } from "react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { getAdminToken, saveProviderKey, setAdminToken } from "@/lib/adminApi";
 
 interface AutoSetupDialogProps {
   open: boolean;
@@ -12,6 +13,8 @@ interface AutoSetupDialogProps {
 
 export default function AutoSetupDialog({ open, onOpenChange }: AutoSetupDialogProps) {
   const [geminiApiKey, setGeminiApiKey] = useState("");
+  const [adminToken, setAdminTokenState] = useState(getAdminToken);
+  const queryClient = useQueryClient();
   const [setupStep, setSetupStep] = useState<'welcome' | 'api-selection' | 'gemini-setup' | 'complete'>('welcome');
 
   // Fetch available AI providers
@@ -32,12 +35,25 @@ export default function AutoSetupDialog({ open, onOpenChange }: AutoSetupDialogP
     window.open('https://aistudio.google.com/apikey', '_blank');
   };
 
-  const handleTestGeminiKey = async () => {
-    if (geminiApiKey.trim()) {
-      // In a real app, you'd test the API key here
-      // For now, we'll assume it's valid and show completion
+  // The server validates the key with Google before storing it encrypted
+  const saveGeminiKeyMutation = useMutation({
+    mutationFn: (apiKey: string) => saveProviderKey('gemini', apiKey),
+    onSuccess: () => {
+      setGeminiApiKey("");
+      queryClient.invalidateQueries({ queryKey: ['/api/ai-providers'] });
       setSetupStep('complete');
     }
+  });
+
+  const handleAdminTokenChange = (token: string) => {
+    setAdminToken(token);
+    setAdminTokenState(token);
+  };
+
+  const handleTestGeminiKey = () => {
+    if (geminiApiKey.trim()) {
+      saveGeminiKeyMutation.mutate(geminiApiKey.trim());
+    }
   };
 
   const renderWelcome = () => (
@@ -196,11 +212,27 @@ export default function AutoSetupDialog({ open, onOpenChange }: AutoSetupDialogP
           className="bg-gray-800/50 border-gray-600 text-right"
           dir="ltr"
         />
+
+        <Input
+          type="password"
+          placeholder="رمز المشرف (ADMIN_TOKEN)"
+          value={adminToken}
+          onChange={(e) => handleAdminTokenChange(e.target.value)}
+          className="bg-gray-800/50 border-gray-600 text-right"
+          dir="ltr"
+        />
         
         <div className="text-xs text-gray-400 bg-yellow-500/10 p-2 rounded border border-yellow-500/30">
           <i className="bi bi-info-circle ml-1"></i>
           المفتاح يبدأ بـ AIza... ولا يتطلب بطاقة ائتمان
         </div>
+
+        {saveGeminiKeyMutation.error && (
+          <div className="text-xs text-red-300 bg-red-500/10 p-2 rounded border border-red-500/30">
+            <i className="bi bi-x-circle ml-1"></i>
+            {saveGeminiKeyMutation.error.message}
+          </div>
+        )}
       </div>
 
       <div className="flex gap-3">
@@ -213,11 +245,15 @@ export default function AutoSetupDialog({ open, onOpenChange }: AutoSetupDialogP
         </Button>
         <Button 
           onClick={handleTestGeminiKey}
-          disabled={!geminiApiKey.trim()}
+          disabled={!geminiApiKey.trim() || !adminToken || saveGeminiKeyMutation.isPending}
           className="flex-1 bg-gradient-to-r from-success to-green-400"
         >
-          <i className="bi bi-check-lg ml-2"></i>
-          تم
+          {saveGeminiKeyMutation.isPending ? (
+            <i className="bi bi-arrow-clockwise animate-spin ml-2"></i>
+          ) : (
+            <i className="bi bi-check-lg ml-2"></i>
+          )}
+          تحقق واحفظ
         </Button>
       </div>
     </div>
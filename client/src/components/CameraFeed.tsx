@@ -1,14 +1,23 @@
 import { useEffect, useRef, useState } from "react";
-import { useFaceDetection } from "@/hooks/useFaceDetection";
+import { useFaceDetection, type ModelStatus } from "@/hooks/useFaceDetection";
 import type { Session, EmotionData } from "@shared/schema";
+import type { DemographicConfidence } from "@/lib/faceApi";
+import { getEmotionArabicName } from "@/lib/openai";
 
 interface CameraFeedProps {
   session: Session;
-  onEmotionUpdate: (emotions: EmotionData, age?: number, gender?: string) => void;
+  onEmotionUpdate: (
+    emotions: EmotionData,
+    age?: number,
+    gender?: string,
+    demographicConfidence?: DemographicConfidence,
+    confidence?: number
+  ) => void;
+  onModelStatusChange?: (status: ModelStatus) => void;
   isMobile?: boolean;
 }
 
-export default function CameraFeed({ session, onEmotionUpdate, isMobile = false }: CameraFeedProps) {
+export default function CameraFeed({ session, onEmotionUpdate, onModelStatusChange, isMobile = false }: CameraFeedProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [cameraStatus, setCameraStatus] = useState<'loading' | 'active' | 'error'>('loading');
@@ -16,17 +25,27 @@ export default function CameraFeed({ session, onEmotionUpdate, isMobile = false
 
   const { 
     isModelsLoaded, 
+    modelStatus,
+    retryModelLoad,
     startDetection, 
     stopDetection,
-    isDetecting 
+    isDetecting,
+    faces,
+    subjectId,
+    selectSubject
   } = useFaceDetection({
     videoElement: videoRef.current,
     canvasElement: canvasRef.current,
-    onDetection: (emotions, age, gender) => {
-      onEmotionUpdate(emotions, age, gender);
+    sessionId: session.id,
+    onDetection: (emotions, age, gender, demographicConfidence, confidence) => {
+      onEmotionUpdate(emotions, age, gender, demographicConfidence, confidence);
     }
   });
 
+  useEffect(() => {
+    onModelStatusChange?.(modelStatus);
+  }, [modelStatus]);
+
   // Initialize camera
   useEffect(() => {
     let stream: MediaStream | null = null;
@@ -105,6 +124,9 @@ export default function CameraFeed({ session, onEmotionUpdate, isMobile = false
     setIsRecording(false);
   };
 
+  const subject = faces.find(face => face.trackId === subjectId);
+  const isSubjectMissing = !!subject && !subject.inFrame && faces.some(face => face.inFrame);
+
   const getCameraStatusText = () => {
     switch (cameraStatus) {
       case 'loading': return 'جاري تشغيل الكاميرا...';
@@ -155,7 +177,7 @@ export default function CameraFeed({ session, onEmotionUpdate, isMobile = false
         </div>
 
         {/* Models Loading Overlay */}
-        {!isModelsLoaded && (
+        {modelStatus === 'loading' && (
           <div className="absolute inset-0 bg-black/70 flex items-center justify-center">
             <div className="text-center text-white">
               <div className="w-8 h-8 border-2 border-white border-t-transparent rounded-full animate-spin mx-auto mb-2"></div>
@@ -164,6 +186,22 @@ export default function CameraFeed({ session, onEmotionUpdate, isMobile = false
           </div>
         )}
 
+        {/* Models Error Overlay */}
+        {modelStatus === 'error' && (
+          <div className="absolute inset-0 bg-black/70 flex items-center justify-center">
+            <div className="text-center text-red-400">
+              <i className="bi bi-exclamation-triangle text-2xl mb-2"></i>
+              <p className="text-sm mb-2">تعذر تحميل نماذج تحليل الوجه</p>
+              <button
+                onClick={retryModelLoad}
+                className="px-3 py-1 rounded-lg text-xs bg-white/10 text-white hover:bg-white/20"
+              >
+                إعادة المحاولة
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Camera Error Overlay */}
         {cameraStatus === 'error' && (
           <div className="absolute inset-0 bg-red-900/20 flex items-center justify-center">
@@ -175,6 +213,33 @@ export default function CameraFeed({ session, onEmotionUpdate, isMobile = false
         )}
       </div>
 
+      {/* Tracked faces: the chosen one is the subject whose emotions are recorded */}
+      {faces.length > 1 && (
+        <div className="mb-4">
+          <div className="text-xs text-gray-400 mb-2">الشخص المتابَع:</div>
+          <div className="flex flex-wrap gap-2">
+            {faces.map(face => (
+              <button
+                key={face.trackId}
+                onClick={() => selectSubject(face.trackId)}
+                className={`px-2 py-1 rounded-lg text-xs border transition-colors ${
+                  face.trackId === subjectId
+                    ? 'bg-success/20 border-success/50 text-white'
+                    : 'bg-muted/30 border-white/10 text-gray-300 hover:bg-white/10'
+                } ${face.inFrame ? '' : 'opacity-50'}`}
+              >
+                شخص {face.trackId} · {getEmotionArabicName(face.dominantEmotion)}
+              </button>
+            ))}
+          </div>
+          {isSubjectMissing && (
+            <p className="text-xs text-warning mt-2">
+              الشخص المتابَع غير ظاهر، ولن تُنسب مشاعر الآخرين إليه
+            </p>
+          )}
+        </div>
+      )}
+
       {/* Control Buttons */}
       <div className="flex gap-2">
         {!isRecording ? (
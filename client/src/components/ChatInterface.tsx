@@ -1,6 +1,8 @@
 import { useState, useRef, useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { streamChatMessage } from "@/lib/chatStream";
+import { adminRequest } from "@/lib/adminApi";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -11,41 +13,77 @@ import ProviderStatus from "@/components/ProviderStatus";
 import SmartWelcomeMessage from "@/components/SmartWelcomeMessage";
 import AIProviderSettings from "@/components/AIProviderSettings";
 import APIHealthMonitor from "@/components/APIHealthMonitor";
-import { MessageCircle, Send, Settings, User as UserIcon, Bot, Sparkles, TestTube, CheckCircle, XCircle, Loader } from "lucide-react";
+import SessionHistory from "@/components/SessionHistory";
+import MoodTrends from "@/components/MoodTrends";
+import PrivacySettings from "@/components/PrivacySettings";
+import { MessageCircle, Send, Settings, User as UserIcon, Bot, Sparkles, TestTube, CheckCircle, XCircle, Loader, LogOut, History, TrendingUp, Shield } from "lucide-react";
 import EnhancedMessageDisplay from "@/components/EnhancedMessageDisplay";
-import type { User, Session, ChatMessage, EmotionData } from "@shared/schema";
+import type { PublicUser, Session, ChatMessage, EmotionData, SignupData, LoginData, DeleteAccountData } from "@shared/schema";
+import type { DemographicConfidence } from "@/lib/faceApi";
+
+// Messages this close to a time picked on the timeline are highlighted
+const JUMP_WINDOW_MS = 60 * 1000;
+const JUMP_HIGHLIGHT_MS = 4000;
 
 interface ChatInterfaceProps {
-  user: User;
+  user: PublicUser;
   session: Session;
   currentEmotions: EmotionData | null;
-  onRegisterUser: (userData: { name: string; email?: string }) => void;
-  onEmotionUpdate: (emotions: EmotionData, age?: number, gender?: string) => void;
+  // Confidence of the latest detection, in percent
+  currentConfidence: number | null;
+  onRegisterUser: (userData: SignupData) => Promise<void>;
+  onLogin: (credentials: LoginData) => Promise<void>;
+  onLogout: () => Promise<void>;
+  onDeleteAccount: (data: DeleteAccountData) => Promise<void>;
+  onEmotionUpdate: (
+    emotions: EmotionData,
+    age?: number,
+    gender?: string,
+    demographicConfidence?: DemographicConfidence,
+    confidence?: number
+  ) => void;
   emotionBuffer?: {
     getLatestEmotion: () => any;
     getAverageEmotions: (timeWindow?: number) => EmotionData | null;
   };
+  // Time picked on the emotion timeline; the messages sent around it are shown
+  jumpToTime?: Date | null;
 }
 
 export default function ChatInterface({ 
   user, 
   session, 
   currentEmotions, 
+  currentConfidence,
   onRegisterUser,
+  onLogin,
+  onLogout,
+  onDeleteAccount,
   onEmotionUpdate,
-  emotionBuffer
+  emotionBuffer,
+  jumpToTime
 }: ChatInterfaceProps) {
   const [message, setMessage] = useState("");
   const [isTyping, setIsTyping] = useState(false);
+  const [pendingUserMessage, setPendingUserMessage] = useState<ChatMessage | null>(null);
+  const [streamingText, setStreamingText] = useState<string | null>(null);
   const [showRegisterDialog, setShowRegisterDialog] = useState(false);
   const [showSettingsDialog, setShowSettingsDialog] = useState(false);
+  const [showHistoryDialog, setShowHistoryDialog] = useState(false);
+  const [showTrendsDialog, setShowTrendsDialog] = useState(false);
+  const [showPrivacyDialog, setShowPrivacyDialog] = useState(false);
   const [showTestDialog, setShowTestDialog] = useState(false);
   const [testMessage, setTestMessage] = useState("مرحباً، كيف حالك اليوم؟");
   const [testResult, setTestResult] = useState<{success: boolean; response?: string; provider?: string; error?: string} | null>(null);
   const [isTestLoading, setIsTestLoading] = useState(false);
+  const [authMode, setAuthMode] = useState<'signup' | 'login'>('signup');
+  const [isAuthPending, setIsAuthPending] = useState(false);
   const [userName, setUserName] = useState("");
+  const [userPassword, setUserPassword] = useState("");
   const [userEmail, setUserEmail] = useState("");
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messageRefs = useRef(new Map<string, HTMLDivElement>());
+  const [highlightedMessageIds, setHighlightedMessageIds] = useState<Set<string>>(new Set());
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
@@ -55,34 +93,84 @@ export default function ChatInterface({
     enabled: !!session.id
   });
 
-  // Send message mutation with emotion buffer
+  // Send message mutation with emotion buffer, streaming the reply as it arrives
   const sendMessageMutation = useMutation({
     mutationFn: async (content: string) => {
       // Get latest emotion from buffer if available
       const latestEmotion = emotionBuffer?.getLatestEmotion();
       const emotionToUse = latestEmotion?.emotions || currentEmotions;
-      
-      const response = await apiRequest('POST', '/api/chat', {
+
+      // Shown right away; the server saves it only once the reply is complete
+      setPendingUserMessage({
+        id: 'pending',
+        sessionId: session.id,
+        isUser: true,
+        content,
+        emotionContext: emotionToUse,
+        provider: null,
+        timestamp: new Date()
+      });
+      setMessage("");
+
+      const send = () => streamChatMessage({
         sessionId: session.id,
         isUser: true,
         content,
         emotionContext: emotionToUse
+      }, {
+        onUserMessage: (userMessage) => {
+          setPendingUserMessage(userMessage);
+        },
+        onChunk: (text) => {
+          setIsTyping(false);
+          setStreamingText(prev => (prev ?? "") + text);
+        },
+        onRestart: () => {
+          setIsTyping(true);
+          setStreamingText(null);
+        }
       });
-      return response.json();
+
+      try {
+        return await send();
+      } catch (error: any) {
+        // 409: the session ended while the page was open (idle timeout,
+        // another tab). It is resumed so the conversation goes on.
+        if (parseInt(error.message, 10) !== 409) throw error;
+        const response = await apiRequest('POST', `/api/sessions/${session.id}/resume`);
+        queryClient.setQueryData(['/api/sessions', 'active'], await response.json());
+        return send();
+      }
     },
     onMutate: () => {
       setIsTyping(true);
+      setStreamingText(null);
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ['/api/sessions', session.id, 'messages'] });
-      setMessage("");
-      setIsTyping(false);
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ['/api/sessions', session.id, 'messages'] });
     },
-    onError: () => {
+    onError: (error: Error, content) => {
+      // Nothing was saved, so the text goes back into the input for a retry
+      setMessage(current => current || content);
+      toast({
+        title: "تعذر إرسال الرسالة",
+        description: error.message,
+        variant: "destructive"
+      });
+    },
+    onSettled: () => {
       setIsTyping(false);
+      setPendingUserMessage(null);
+      setStreamingText(null);
     }
   });
 
+  // The user's message stays visible while the reply streams in, until the
+  // refetched history contains it
+  const displayedMessages = pendingUserMessage && !messages.some(m => m.id === pendingUserMessage.id)
+    ? [...messages, pendingUserMessage]
+    : messages;
+
   const handleSendMessage = (e: React.FormEvent) => {
     e.preventDefault();
     if (message.trim() && !sendMessageMutation.isPending) {
@@ -90,15 +178,44 @@ export default function ChatInterface({
     }
   };
 
-  const handleRegister = () => {
-    if (userName.trim()) {
-      onRegisterUser({
-        name: userName,
-        email: userEmail || undefined
-      });
+  const handleRegister = async () => {
+    if (!userName.trim() || !userPassword) return;
+
+    setIsAuthPending(true);
+    try {
+      if (authMode === 'signup') {
+        await onRegisterUser({
+          name: userName.trim(),
+          password: userPassword,
+          email: userEmail.trim() || undefined
+        });
+      } else {
+        await onLogin({ name: userName.trim(), password: userPassword });
+      }
       setShowRegisterDialog(false);
       setUserName("");
+      setUserPassword("");
       setUserEmail("");
+    } catch (error: any) {
+      toast({
+        title: authMode === 'signup' ? "تعذر إنشاء الحساب" : "تعذر تسجيل الدخول",
+        description: getApiErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setIsAuthPending(false);
+    }
+  };
+
+  const handleLogout = async () => {
+    try {
+      await onLogout();
+    } catch (error: any) {
+      toast({
+        title: "تعذر تسجيل الخروج",
+        description: getApiErrorMessage(error),
+        variant: "destructive"
+      });
     }
   };
 
@@ -119,7 +236,7 @@ export default function ChatInterface({
         neutral: 5
       };
 
-      const response = await apiRequest('POST', '/api/test-ai-provider', {
+      const response = await adminRequest('POST', '/api/test-ai-provider', {
         provider: 'auto',
         message: testMessage,
         emotions: mockEmotions
@@ -159,7 +276,30 @@ export default function ChatInterface({
   // Auto scroll to bottom
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages, isTyping]);
+  }, [messages, isTyping, streamingText]);
+
+  // Scroll to the message nearest the time picked on the timeline and
+  // highlight the ones sent around it
+  useEffect(() => {
+    if (!jumpToTime) return;
+    const distance = (msg: ChatMessage) => Math.abs(new Date(msg.timestamp!).getTime() - jumpToTime.getTime());
+    const nearest = messages.reduce<ChatMessage | null>(
+      (best, msg) => !best || distance(msg) < distance(best) ? msg : best,
+      null
+    );
+    if (!nearest) {
+      toast({ title: "لا توجد رسائل", description: "لم تُرسل أي رسائل في هذه الجلسة بعد" });
+      return;
+    }
+
+    messageRefs.current.get(nearest.id)?.scrollIntoView({ behavior: "smooth", block: "center" });
+    setHighlightedMessageIds(new Set([
+      nearest.id,
+      ...messages.filter(msg => distance(msg) <= JUMP_WINDOW_MS).map(msg => msg.id)
+    ]));
+    const timer = setTimeout(() => setHighlightedMessageIds(new Set()), JUMP_HIGHLIGHT_MS);
+    return () => clearTimeout(timer);
+  }, [jumpToTime]);
 
   const getEmotionDisplay = (emotions: EmotionData | null): React.ReactNode => {
     if (!emotions) return null;
@@ -227,7 +367,7 @@ export default function ChatInterface({
                 <p className="text-sm text-muted-foreground">
                   {currentEmotions ? "متصل - يحلل المشاعر" : "متصل - في انتظار الكاميرا"}
                 </p>
-                <ProviderStatus />
+                <ProviderStatus sessionId={session.id} />
               </div>
             </div>
           </div>
@@ -314,7 +454,19 @@ export default function ChatInterface({
               </DialogContent>
             </Dialog>
 
-            {user.name.startsWith('ضيف_') && (
+            {!user.isGuest && (
+              <Button
+                variant="outline"
+                size="sm"
+                className="button-modern border-border hover:bg-muted/50"
+                onClick={handleLogout}
+                title={`تسجيل الخروج (${user.name})`}
+              >
+                <LogOut className="w-4 h-4" />
+              </Button>
+            )}
+
+            {user.isGuest && (
               <Dialog open={showRegisterDialog} onOpenChange={setShowRegisterDialog}>
                 <DialogTrigger asChild>
                   <Button variant="outline" size="sm" className="button-modern border-success/50 text-success hover:bg-success/20">
@@ -326,27 +478,45 @@ export default function ChatInterface({
                   <DialogHeader>
                     <DialogTitle className="text-gradient flex items-center gap-2">
                       <UserIcon className="w-5 h-5" />
-                      تسجيل مستخدم جديد
+                      {authMode === 'signup' ? 'تسجيل مستخدم جديد' : 'تسجيل الدخول'}
                     </DialogTitle>
                   </DialogHeader>
                   <div className="space-y-4">
                     <Input
-                      placeholder="الاسم الكامل"
+                      placeholder={authMode === 'signup' ? "الاسم الكامل" : "اسم المستخدم"}
                       value={userName}
                       onChange={(e) => setUserName(e.target.value)}
                       className="bg-gray-900/80 border-gray-600/50 text-white placeholder:text-gray-400 focus:border-primary/50 focus:ring-primary/30"
                     />
                     <Input
-                      placeholder="البريد الإلكتروني (اختياري)"
-                      type="email"
-                      value={userEmail}
-                      onChange={(e) => setUserEmail(e.target.value)}
+                      placeholder={authMode === 'signup' ? "كلمة المرور (8 أحرف على الأقل)" : "كلمة المرور"}
+                      type="password"
+                      value={userPassword}
+                      onChange={(e) => setUserPassword(e.target.value)}
                       className="bg-gray-900/80 border-gray-600/50 text-white placeholder:text-gray-400 focus:border-primary/50 focus:ring-primary/30"
                     />
-                    <p className="text-xs text-muted-foreground flex items-center gap-2">
-                      <MessageCircle className="w-3 h-3" />
-                      سيتم تحديد العمر والجنس تلقائياً من الكاميرا
-                    </p>
+                    {authMode === 'signup' && (
+                      <>
+                        <Input
+                          placeholder="البريد الإلكتروني (اختياري)"
+                          type="email"
+                          value={userEmail}
+                          onChange={(e) => setUserEmail(e.target.value)}
+                          className="bg-gray-900/80 border-gray-600/50 text-white placeholder:text-gray-400 focus:border-primary/50 focus:ring-primary/30"
+                        />
+                        <p className="text-xs text-muted-foreground flex items-center gap-2">
+                          <MessageCircle className="w-3 h-3" />
+                          سيتم تحديد العمر والجنس تلقائياً من الكاميرا
+                        </p>
+                      </>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => setAuthMode(authMode === 'signup' ? 'login' : 'signup')}
+                      className="text-xs text-primary hover:underline"
+                    >
+                      {authMode === 'signup' ? 'لديك حساب؟ سجّل الدخول' : 'ليس لديك حساب؟ أنشئ حساباً'}
+                    </button>
                     <div className="flex gap-3">
                       <Button 
                         variant="outline" 
@@ -358,9 +528,10 @@ export default function ChatInterface({
                       <Button 
                         onClick={handleRegister}
                         className="flex-1 button-enhanced"
-                        disabled={!userName.trim()}
+                        disabled={!userName.trim() || !userPassword || isAuthPending}
                       >
-                        تسجيل
+                        {isAuthPending && <Loader className="w-4 h-4 animate-spin ml-2" />}
+                        {authMode === 'signup' ? 'تسجيل' : 'دخول'}
                       </Button>
                     </div>
                   </div>
@@ -368,9 +539,57 @@ export default function ChatInterface({
               </Dialog>
             )}
 
+            <SessionHistory
+              open={showHistoryDialog}
+              onOpenChange={setShowHistoryDialog}
+              user={user}
+              currentSession={session}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="button-modern border-border hover:bg-muted/50"
+              onClick={() => setShowHistoryDialog(true)}
+              title="سجل الجلسات"
+            >
+              <History className="w-4 h-4" />
+            </Button>
+
+            <MoodTrends
+              open={showTrendsDialog}
+              onOpenChange={setShowTrendsDialog}
+              user={user}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="button-modern border-border hover:bg-muted/50"
+              onClick={() => setShowTrendsDialog(true)}
+              title="اتجاهات المزاج"
+            >
+              <TrendingUp className="w-4 h-4" />
+            </Button>
+
+            <PrivacySettings
+              open={showPrivacyDialog}
+              onOpenChange={setShowPrivacyDialog}
+              user={user}
+              onDeleteAccount={onDeleteAccount}
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              className="button-modern border-border hover:bg-muted/50"
+              onClick={() => setShowPrivacyDialog(true)}
+              title="الخصوصية والبيانات"
+            >
+              <Shield className="w-4 h-4" />
+            </Button>
+
             <AIProviderSettings 
               open={showSettingsDialog}
               onOpenChange={setShowSettingsDialog}
+              session={session}
             />
             <Button 
               variant="outline" 
@@ -395,8 +614,17 @@ export default function ChatInterface({
         </div>
 
         {/* Chat Messages */}
-        {messages.map((msg: ChatMessage) => (
-          <div key={msg.id} className={`flex items-start gap-3 ${msg.isUser ? 'justify-end' : ''}`}>
+        {displayedMessages.map((msg: ChatMessage) => (
+          <div
+            key={msg.id}
+            ref={(el) => {
+              if (el) messageRefs.current.set(msg.id, el);
+              else messageRefs.current.delete(msg.id);
+            }}
+            className={`flex items-start gap-3 rounded-xl transition-shadow ${msg.isUser ? 'justify-end' : ''} ${
+              highlightedMessageIds.has(msg.id) ? 'ring-2 ring-accent/60' : ''
+            }`}
+          >
             {msg.isUser ? (
               <>
                 <div className="chat-bubble-user p-4 max-w-md sm:max-w-xs md:max-w-md text-white card-hover">
@@ -423,6 +651,7 @@ export default function ChatInterface({
                   <p className="text-foreground leading-relaxed">{msg.content}</p>
                   <span className="text-xs text-muted-foreground mt-2 block">
                     {formatTime(msg.timestamp!)}
+                    {msg.provider && ` • ${msg.provider}`}
                   </span>
                 </div>
               </>
@@ -430,6 +659,19 @@ export default function ChatInterface({
           </div>
         ))}
 
+        {/* Streaming Reply */}
+        {streamingText !== null && (
+          <div className="flex items-start gap-3">
+            <div className="w-8 h-8 rounded-full bg-gradient-to-r from-accent to-primary flex items-center justify-center flex-shrink-0 smooth-pulse">
+              <Bot className="w-4 h-4 text-white" />
+            </div>
+            <div className="chat-bubble-ai p-4 max-w-md sm:max-w-xs md:max-w-md emotion-glow">
+              <p className="text-foreground leading-relaxed whitespace-pre-wrap">{streamingText}</p>
+              <span className="text-xs text-muted-foreground mt-2 block">يكتب...</span>
+            </div>
+          </div>
+        )}
+
         {/* Typing Indicator */}
         {isTyping && (
           <div className="flex items-start gap-3">
@@ -486,7 +728,7 @@ export default function ChatInterface({
                 <Sparkles className="w-3 h-3" />
                 الحالة العاطفية الحالية
               </span>
-              <span>دقة: {user.age ? '87%' : 'غير محدد'}</span>
+              <span>دقة: {currentConfidence !== null ? `${currentConfidence}%` : 'غير محدد'}</span>
             </div>
             <div className="mobile-grid gap-2 text-xs">
               {Object.entries(currentEmotions)
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Area, AreaChart, Brush, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { EMOTION_KEYS, type EmotionTimeline, type Session } from "@shared/schema";
+
+interface EmotionTimelineChartProps {
+  session: Session;
+  // Called with the time of the clicked point
+  onSelectTime: (time: Date) => void;
+}
+
+// Bucket sizes the chart steps through as the session grows, in seconds
+const BUCKET_SIZES = [5, 10, 30, 60, 300, 900, 3600];
+// Points the chart aims to show for the whole session
+const TARGET_POINTS = 120;
+
+const chartConfig = {
+  happy: { label: "سعادة", color: "#facc15" },
+  neutral: { label: "طبيعي", color: "#9ca3af" },
+  sad: { label: "حزن", color: "#60a5fa" },
+  angry: { label: "غضب", color: "#f87171" },
+  surprised: { label: "تفاجؤ", color: "#c084fc" },
+  fearful: { label: "خوف", color: "#818cf8" },
+  disgusted: { label: "اشمئزاز", color: "#4ade80" }
+} satisfies ChartConfig;
+
+// The smallest bucket that keeps the whole session near TARGET_POINTS points
+function bucketSizeFor(session: Session): number {
+  const start = session.startTime ? new Date(session.startTime).getTime() : Date.now();
+  const end = session.endTime ? new Date(session.endTime).getTime() : Date.now();
+  const seconds = Math.max(0, (end - start) / 1000);
+  return BUCKET_SIZES.find(size => seconds / size <= TARGET_POINTS) ?? BUCKET_SIZES[BUCKET_SIZES.length - 1];
+}
+
+const formatTime = (time: number) => {
+  return new Intl.DateTimeFormat('ar', {
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).format(new Date(time));
+};
+
+export default function EmotionTimelineChart({ session, onSelectTime }: EmotionTimelineChartProps) {
+  const bucket = bucketSizeFor(session);
+  // Brush selection as point indexes; null shows the whole session
+  const [zoom, setZoom] = useState<{ bucket: number; startIndex: number; endIndex: number } | null>(null);
+
+  const { data: timeline } = useQuery<EmotionTimeline>({
+    queryKey: ['/api/sessions', session.id, 'timeline', bucket],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/sessions/${session.id}/timeline?bucket=${bucket}`);
+      return response.json();
+    },
+    refetchInterval: 5000,
+    enabled: !!session.id
+  });
+
+  const points = (timeline?.buckets ?? []).map(b => ({ time: new Date(b.start).getTime(), ...b.mean }));
+  // A selection made at another bucket size points at other buckets
+  const range = zoom && zoom.bucket === bucket && zoom.endIndex < points.length ? zoom : null;
+
+  return (
+    <div className="glassmorphism p-4 rounded-xl">
+      <h4 className="text-md font-semibold text-gray-200 mb-3 flex items-center gap-2">
+        <i className="bi bi-activity text-accent"></i>
+        الخط الزمني للمشاعر
+        {range && (
+          <Button variant="ghost" size="sm" className="mr-auto h-7 text-xs" onClick={() => setZoom(null)}>
+            عرض الجلسة كاملة
+          </Button>
+        )}
+      </h4>
+
+      {points.length < 2 ? (
+        <div className="text-center py-8 text-gray-400">
+          <i className="bi bi-graph-up text-2xl mb-2"></i>
+          <p className="text-sm">يظهر الخط الزمني بعد تسجيل المزيد من التحليلات...</p>
+        </div>
+      ) : (
+        <>
+          <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full" dir="ltr">
+            <AreaChart
+              data={points}
+              stackOffset="expand"
+              className="cursor-pointer"
+              onClick={(state) => {
+                const point = state?.activePayload?.[0]?.payload;
+                if (point) onSelectTime(new Date(point.time));
+              }}
+            >
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="time"
+                type="number"
+                scale="time"
+                domain={['dataMin', 'dataMax']}
+                tickFormatter={formatTime}
+                tickLine={false}
+                minTickGap={32}
+              />
+              <YAxis hide />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => formatTime(payload[0]?.payload.time)}
+                    formatter={(value, name) => (
+                      <>
+                        <span className="text-muted-foreground">
+                          {chartConfig[name as keyof typeof chartConfig]?.label ?? name}
+                        </span>
+                        <span className="mr-auto font-mono tabular-nums">{Math.round(Number(value))}%</span>
+                      </>
+                    )}
+                  />
+                }
+              />
+              {EMOTION_KEYS.map(key => (
+                <Area
+                  key={key}
+                  dataKey={key}
+                  type="monotone"
+                  stackId="emotions"
+                  stroke={`var(--color-${key})`}
+                  fill={`var(--color-${key})`}
+                  fillOpacity={0.4}
+                  isAnimationActive={false}
+                />
+              ))}
+              <ChartLegend content={<ChartLegendContent />} />
+              <Brush
+                dataKey="time"
+                height={20}
+                stroke="hsl(var(--primary))"
+                fill="transparent"
+                tickFormatter={formatTime}
+                startIndex={range?.startIndex}
+                endIndex={range?.endIndex}
+                onChange={({ startIndex, endIndex }) => {
+                  if (startIndex === undefined || endIndex === undefined) return;
+                  setZoom({ bucket, startIndex, endIndex });
+                }}
+              />
+            </AreaChart>
+          </ChartContainer>
+          <p className="text-xs text-gray-500 mt-2">
+            اسحب الشريط السفلي للتكبير، وانقر على نقطة لعرض الرسائل المرسلة في ذلك الوقت
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,13 +2,31 @@ import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import CameraFeed from "./CameraFeed";
 import EmotionAnalysis from "./EmotionAnalysis";
-import type { User, Session, EmotionData } from "@shared/schema";
+import EmotionTimelineChart from "./EmotionTimelineChart";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { Pencil } from "lucide-react";
+import type { PublicUser, Session, EmotionData, UserProfileUpdate } from "@shared/schema";
+import type { DemographicConfidence } from "@/lib/faceApi";
+import type { ModelStatus } from "@/hooks/useFaceDetection";
 
 interface MonitoringPanelProps {
-  user: User;
+  user: PublicUser;
   session: Session;
   currentEmotions: EmotionData | null;
-  onEmotionUpdate: (emotions: EmotionData, age?: number, gender?: string) => void;
+  onEmotionUpdate: (
+    emotions: EmotionData,
+    age?: number,
+    gender?: string,
+    demographicConfidence?: DemographicConfidence,
+    confidence?: number
+  ) => void;
+  // Shows the chat messages sent around a time picked on the timeline
+  onJumpToTime: (time: Date) => void;
   isMobile?: boolean;
 }
 
@@ -17,9 +35,16 @@ export default function MonitoringPanel({
   session, 
   currentEmotions, 
   onEmotionUpdate,
+  onJumpToTime,
   isMobile = false 
 }: MonitoringPanelProps) {
   const [sessionDuration, setSessionDuration] = useState(0);
+  const [isEditingProfile, setIsEditingProfile] = useState(false);
+  const [ageInput, setAgeInput] = useState('');
+  const [genderInput, setGenderInput] = useState('unknown');
+  const [modelStatus, setModelStatus] = useState<ModelStatus>('loading');
+  const { updateProfileMutation } = useAuth();
+  const { toast } = useToast();
 
   // Fetch session statistics
   const { data: stats } = useQuery<{
@@ -58,6 +83,42 @@ export default function MonitoringPanel({
     return genderMap[gender as keyof typeof genderMap] || gender;
   };
 
+  // Where a demographic value came from, shown next to it
+  const getSourceLabel = (source: string, confidence: number | null) => {
+    if (source === 'self_reported') return 'أدخلته بنفسك';
+    if (source === 'model_estimated') return confidence !== null ? `تقدير الكاميرا ${confidence}%` : 'تقدير الكاميرا';
+    return null;
+  };
+
+  const startEditingProfile = () => {
+    setAgeInput(user.age ? String(user.age) : '');
+    setGenderInput(user.gender || 'unknown');
+    setIsEditingProfile(true);
+  };
+
+  // Values entered here are self-reported, so camera estimates no longer replace them
+  const saveProfile = async () => {
+    const age = ageInput.trim() ? Number(ageInput) : null;
+    if (age !== null && (!Number.isInteger(age) || age < 1 || age > 120)) {
+      toast({ title: "عمر غير صالح", description: "أدخل عمراً بين 1 و 120", variant: "destructive" });
+      return;
+    }
+
+    const update: UserProfileUpdate = {
+      age: { value: age, source: 'self_reported' },
+      gender: {
+        value: genderInput === 'male' || genderInput === 'female' ? genderInput : null,
+        source: 'self_reported'
+      }
+    };
+    try {
+      await updateProfileMutation.mutateAsync({ userId: user.id, update });
+      setIsEditingProfile(false);
+    } catch (error: any) {
+      toast({ title: "تعذر حفظ البيانات", description: getApiErrorMessage(error), variant: "destructive" });
+    }
+  };
+
   const getDominantEmotionArabic = (emotion: string) => {
     const emotionMap = {
       happy: 'سعادة',
@@ -77,6 +138,7 @@ export default function MonitoringPanel({
       <CameraFeed 
         session={session}
         onEmotionUpdate={onEmotionUpdate}
+        onModelStatusChange={setModelStatus}
         isMobile={isMobile}
       />
 
@@ -88,8 +150,50 @@ export default function MonitoringPanel({
           <h4 className="text-md font-semibold text-gray-200 mb-3 flex items-center gap-2">
             <i className="bi bi-person-badge text-accent"></i>
             هوية المستخدم
+            {!isEditingProfile && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="mr-auto h-7 w-7 p-0"
+                onClick={startEditingProfile}
+                title="تعديل العمر والجنس"
+              >
+                <Pencil className="w-3 h-3" />
+              </Button>
+            )}
           </h4>
-          
+
+          {isEditingProfile && (
+            <div className="space-y-2 text-sm mb-3">
+              <Input
+                type="number"
+                min={1}
+                max={120}
+                placeholder="العمر"
+                value={ageInput}
+                onChange={(e) => setAgeInput(e.target.value)}
+              />
+              <Select value={genderInput} onValueChange={setGenderInput}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="male">ذكر</SelectItem>
+                  <SelectItem value="female">أنثى</SelectItem>
+                  <SelectItem value="unknown">غير محدد</SelectItem>
+                </SelectContent>
+              </Select>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={saveProfile} disabled={updateProfileMutation.isPending}>
+                  حفظ
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setIsEditingProfile(false)}>
+                  إلغاء
+                </Button>
+              </div>
+            </div>
+          )}
+
           <div className="space-y-2 text-sm">
             <div className="flex justify-between">
               <span className="text-gray-400">الاسم:</span>
@@ -100,13 +204,23 @@ export default function MonitoringPanel({
             <div className="flex justify-between">
               <span className="text-gray-400">العمر:</span>
               <span className="text-blue-400">
-                {user.age ? `~${user.age} سنة` : 'غير محدد'}
+                {user.age ? `${user.ageSource === 'self_reported' ? '' : '~'}${user.age} سنة` : 'غير محدد'}
+                {getSourceLabel(user.ageSource, user.ageConfidence) && (
+                  <span className="text-xs text-gray-500 mr-1">
+                    ({getSourceLabel(user.ageSource, user.ageConfidence)})
+                  </span>
+                )}
               </span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-400">الجنس:</span>
               <span className="text-blue-400">
                 {getGenderArabic(user.gender || 'unknown')}
+                {getSourceLabel(user.genderSource, user.genderConfidence) && (
+                  <span className="text-xs text-gray-500 mr-1">
+                    ({getSourceLabel(user.genderSource, user.genderConfidence)})
+                  </span>
+                )}
               </span>
             </div>
             <div className="flex justify-between">
@@ -121,6 +235,9 @@ export default function MonitoringPanel({
         {/* Live Emotions */}
         <EmotionAnalysis emotions={currentEmotions} />
 
+        {/* Emotion Timeline */}
+        <EmotionTimelineChart session={session} onSelectTime={onJumpToTime} />
+
         {/* Session Statistics */}
         <div className="glassmorphism p-4 rounded-xl">
           <h4 className="text-md font-semibold text-gray-200 mb-3 flex items-center gap-2">
@@ -169,10 +286,24 @@ export default function MonitoringPanel({
           <div className="space-y-2 text-sm">
             <div className="flex items-center justify-between">
               <span className="text-gray-400">Face-API Models</span>
-              <span className="text-success flex items-center gap-1">
-                <i className="bi bi-check-circle-fill"></i>
-                محمل
-              </span>
+              {modelStatus === 'loaded' && (
+                <span className="text-success flex items-center gap-1">
+                  <i className="bi bi-check-circle-fill"></i>
+                  محمل
+                </span>
+              )}
+              {modelStatus === 'loading' && (
+                <span className="text-warning flex items-center gap-1">
+                  <i className="bi bi-hourglass-split"></i>
+                  جاري التحميل
+                </span>
+              )}
+              {modelStatus === 'error' && (
+                <span className="text-destructive flex items-center gap-1">
+                  <i className="bi bi-x-circle-fill"></i>
+                  فشل التحميل
+                </span>
+              )}
             </div>
             
             <div className="flex items-center justify-between">
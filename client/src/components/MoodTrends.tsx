@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceDot, ReferenceLine, XAxis, YAxis } from "recharts";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { Loader, TrendingDown, TrendingUp } from "lucide-react";
+import type { EmotionData, MoodTrends as MoodTrendsData, PublicUser } from "@shared/schema";
+
+interface MoodTrendsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: PublicUser;
+}
+
+const chartConfig = {
+  valence: { label: "المزاج", color: "hsl(var(--primary))" },
+  sessionCount: { label: "الجلسات", color: "hsl(var(--muted-foreground))" }
+} satisfies ChartConfig;
+
+const emotionLabels: Record<keyof EmotionData, string> = {
+  happy: 'سعادة',
+  sad: 'حزن',
+  angry: 'غضب',
+  surprised: 'تفاجؤ',
+  fearful: 'خوف',
+  disgusted: 'اشمئزاز',
+  neutral: 'محايد'
+};
+
+export default function MoodTrends({ open, onOpenChange, user }: MoodTrendsProps) {
+  const [period, setPeriod] = useState<'day' | 'week'>('day');
+  // Periods start at the viewer's midnight
+  const utcOffset = -new Date().getTimezoneOffset();
+
+  const { data: trends, isLoading } = useQuery<MoodTrendsData>({
+    queryKey: ['/api/users', user.id, 'trends', period],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/users/${user.id}/trends?period=${period}&utcOffset=${utcOffset}`);
+      return response.json();
+    },
+    enabled: open
+  });
+
+  const formatPeriod = (value: string | Date | number) =>
+    new Date(value).toLocaleDateString('ar', { month: 'short', day: 'numeric' });
+
+  const formatMinutes = (seconds: number | null) =>
+    seconds === null ? '-' : `${Math.round(seconds / 60)} دقيقة`;
+
+  const periods = trends?.periods ?? [];
+  const points = periods.map(p => ({
+    start: new Date(p.start).getTime(),
+    valence: p.valence,
+    sessionCount: p.sessionCount
+  }));
+  const shifts = periods.filter(p => p.shift);
+  const activePeriods = periods.filter(p => p.sessionCount > 0);
+  const totalSessions = activePeriods.reduce((sum, p) => sum + p.sessionCount, 0);
+  const totalSeconds = activePeriods.reduce((sum, p) => sum + p.totalSessionSeconds, 0);
+
+  // How often each emotion was the dominant one of a period
+  const dominantCounts = periods.reduce<Partial<Record<keyof EmotionData, number>>>((counts, p) => {
+    if (p.dominantEmotion) counts[p.dominantEmotion] = (counts[p.dominantEmotion] ?? 0) + 1;
+    return counts;
+  }, {});
+  const dominantEmotions = (Object.entries(dominantCounts) as Array<[keyof EmotionData, number]>)
+    .sort(([, a], [, b]) => b - a);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glassmorphism border-white/20 max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="text-gradient flex items-center gap-2">
+            <TrendingUp className="w-5 h-5" />
+            اتجاهات المزاج
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex gap-2">
+            <Button size="sm" variant={period === 'day' ? 'default' : 'outline'} onClick={() => setPeriod('day')}>
+              يومي
+            </Button>
+            <Button size="sm" variant={period === 'week' ? 'default' : 'outline'} onClick={() => setPeriod('week')}>
+              أسبوعي
+            </Button>
+          </div>
+
+          {isLoading && (
+            <div className="flex justify-center py-6">
+              <Loader className="w-5 h-5 animate-spin" />
+            </div>
+          )}
+
+          {trends && (
+            <>
+              <div className="grid grid-cols-3 gap-3 text-center">
+                <div className="p-3 rounded-lg bg-muted/30 border border-white/10">
+                  <div className="text-lg font-bold text-white">{totalSessions}</div>
+                  <div className="text-xs text-muted-foreground">الجلسات</div>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/30 border border-white/10">
+                  <div className="text-lg font-bold text-white">
+                    {formatMinutes(totalSessions > 0 ? totalSeconds / totalSessions : null)}
+                  </div>
+                  <div className="text-xs text-muted-foreground">متوسط مدة الجلسة</div>
+                </div>
+                <div className="p-3 rounded-lg bg-muted/30 border border-white/10">
+                  <div className="text-lg font-bold text-white">{shifts.length}</div>
+                  <div className="text-xs text-muted-foreground">تحولات ملحوظة</div>
+                </div>
+              </div>
+
+              <ChartContainer config={chartConfig} className="aspect-auto h-56 w-full" dir="ltr">
+                <ComposedChart data={points}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="start" tickFormatter={formatPeriod} tickLine={false} minTickGap={24} />
+                  <YAxis yAxisId="valence" domain={[-1, 1]} tickCount={5} width={32} />
+                  <YAxis yAxisId="sessions" orientation="right" allowDecimals={false} width={24} />
+                  <ReferenceLine yAxisId="valence" y={0} strokeDasharray="3 3" />
+                  <ChartTooltip
+                    content={<ChartTooltipContent labelFormatter={(_, payload) => formatPeriod(payload[0]?.payload.start)} />}
+                  />
+                  <Bar yAxisId="sessions" dataKey="sessionCount" fill="var(--color-sessionCount)" fillOpacity={0.3} />
+                  <Line
+                    yAxisId="valence"
+                    dataKey="valence"
+                    type="monotone"
+                    stroke="var(--color-valence)"
+                    strokeWidth={2}
+                    connectNulls
+                    isAnimationActive={false}
+                  />
+                  {shifts.map(p => (
+                    <ReferenceDot
+                      key={String(p.start)}
+                      yAxisId="valence"
+                      x={new Date(p.start).getTime()}
+                      y={p.valence!}
+                      r={5}
+                      fill={p.shift!.direction === 'positive' ? '#4ade80' : '#f87171'}
+                      stroke="none"
+                    />
+                  ))}
+                </ComposedChart>
+              </ChartContainer>
+
+              {dominantEmotions.length > 0 && (
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <span className="text-muted-foreground">المشاعر الغالبة:</span>
+                  {dominantEmotions.map(([emotion, count]) => (
+                    <Badge key={emotion} variant="outline">
+                      {emotionLabels[emotion]} · {count} {period === 'day' ? 'يوم' : 'أسبوع'}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-2 max-h-48 overflow-y-auto scrollbar-hidden">
+                {shifts.length === 0 && (
+                  <p className="text-sm text-muted-foreground text-center py-2">
+                    لا توجد تحولات ملحوظة مقارنة بالمعتاد لديك
+                  </p>
+                )}
+                {shifts.map(p => (
+                  <div
+                    key={String(p.start)}
+                    className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/30 border border-white/10 text-sm"
+                  >
+                    <div className="flex items-center gap-2">
+                      {p.shift!.direction === 'positive' ? (
+                        <TrendingUp className="w-4 h-4 text-success" />
+                      ) : (
+                        <TrendingDown className="w-4 h-4 text-destructive" />
+                      )}
+                      <span className="text-white">{formatPeriod(p.start)}</span>
+                      <span className="text-muted-foreground">
+                        {p.shift!.direction === 'positive' ? 'تحسن' : 'تراجع'} في المزاج، أبرزه {emotionLabels[p.shift!.emotion]}
+                      </span>
+                    </div>
+                    <Badge variant="outline">{p.shift!.zScore > 0 ? '+' : ''}{p.shift!.zScore}σ</Badge>
+                  </div>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
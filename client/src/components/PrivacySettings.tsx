@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Download, Loader, Shield, Trash2 } from "lucide-react";
+import type { DeleteAccountData, PublicUser } from "@shared/schema";
+
+// Typed by the user before the account can be erased
+const CONFIRMATION_WORD = 'حذف';
+
+interface PrivacySettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: PublicUser;
+  onDeleteAccount: (data: DeleteAccountData) => Promise<void>;
+}
+
+export default function PrivacySettings({ open, onOpenChange, user, onDeleteAccount }: PrivacySettingsProps) {
+  const [showConfirm, setShowConfirm] = useState(false);
+  const [confirmation, setConfirmation] = useState("");
+  const [password, setPassword] = useState("");
+  const [isDeleting, setIsDeleting] = useState(false);
+  const { toast } = useToast();
+
+  const onConfirmChange = (confirmOpen: boolean) => {
+    setShowConfirm(confirmOpen);
+    if (!confirmOpen) {
+      setConfirmation("");
+      setPassword("");
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    try {
+      await onDeleteAccount(user.isGuest ? {} : { password });
+      onConfirmChange(false);
+      onOpenChange(false);
+      toast({
+        title: "تم حذف الحساب",
+        description: "حُذفت جميع بياناتك وجلساتك نهائياً"
+      });
+    } catch (error: any) {
+      toast({
+        title: "تعذر حذف الحساب",
+        description: getApiErrorMessage(error),
+        variant: "destructive"
+      });
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  const canDelete = confirmation.trim() === CONFIRMATION_WORD && (user.isGuest || !!password) && !isDeleting;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glassmorphism border-white/20 max-w-md">
+        <DialogHeader>
+          <DialogTitle className="text-gradient flex items-center gap-2">
+            <Shield className="w-5 h-5" />
+            الخصوصية والبيانات
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="p-4 rounded-lg bg-muted/30 border border-white/10 space-y-3">
+            <div>
+              <div className="text-sm font-medium text-white">تنزيل بياناتك</div>
+              <p className="text-xs text-muted-foreground">
+                ملف JSON يضم حسابك وكل جلساتك وتحليلات المشاعر والمحادثات
+              </p>
+            </div>
+            <Button asChild variant="outline" size="sm" className="w-full">
+              <a href={`/api/users/${user.id}/export`} download>
+                <Download className="w-4 h-4 ml-2" />
+                تنزيل البيانات
+              </a>
+            </Button>
+          </div>
+
+          <div className="p-4 rounded-lg bg-destructive/10 border border-destructive/30 space-y-3">
+            <div>
+              <div className="text-sm font-medium text-white">حذف الحساب</div>
+              <p className="text-xs text-muted-foreground">
+                يحذف حسابك وجميع جلساتك وبيانات المشاعر والمحادثات نهائياً ولا يمكن التراجع عنه
+              </p>
+            </div>
+            <Button variant="destructive" size="sm" className="w-full" onClick={() => setShowConfirm(true)}>
+              <Trash2 className="w-4 h-4 ml-2" />
+              حذف الحساب وكل البيانات
+            </Button>
+          </div>
+        </div>
+
+        <AlertDialog open={showConfirm} onOpenChange={onConfirmChange}>
+          <AlertDialogContent className="glassmorphism border-white/20">
+            <AlertDialogHeader>
+              <AlertDialogTitle>تأكيد حذف الحساب</AlertDialogTitle>
+              <AlertDialogDescription>
+                ستُحذف جميع بياناتك نهائياً. اكتب «{CONFIRMATION_WORD}» للمتابعة.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <div className="space-y-3">
+              <div>
+                <label htmlFor="delete-confirmation" className="text-sm font-medium text-gray-300 mb-2 block">التأكيد</label>
+                <Input
+                  id="delete-confirmation"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  placeholder={CONFIRMATION_WORD}
+                  className="input-enhanced"
+                />
+              </div>
+              {!user.isGuest && (
+                <div>
+                  <label htmlFor="delete-password" className="text-sm font-medium text-gray-300 mb-2 block">كلمة المرور</label>
+                  <Input
+                    id="delete-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    className="input-enhanced"
+                  />
+                </div>
+              )}
+            </div>
+            <AlertDialogFooter className="gap-2">
+              <AlertDialogCancel disabled={isDeleting}>إلغاء</AlertDialogCancel>
+              <Button variant="destructive" onClick={handleDelete} disabled={!canDelete}>
+                {isDeleting && <Loader className="w-4 h-4 animate-spin ml-2" />}
+                حذف نهائي
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </DialogContent>
+    </Dialog>
+  );
+}
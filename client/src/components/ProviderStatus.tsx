@@ -1,17 +1,42 @@
 import { useQuery } from "@tanstack/react-query";
+import type { Session } from "@shared/schema";
 
 interface ProviderStatusProps {
+  sessionId?: string;
   className?: string;
 }
 
-export default function ProviderStatus({ className = "" }: ProviderStatusProps) {
-  const { data: providers = [] } = useQuery<Array<{name: string; configured: boolean}>>({
+export default function ProviderStatus({ sessionId, className = "" }: ProviderStatusProps) {
+  const { data: providers = [] } = useQuery<Array<{id: string; name: string; configured: boolean}>>({
     queryKey: ['/api/ai-providers'],
     refetchInterval: 30000 // Refresh every 30 seconds
   });
 
+  const { data: session } = useQuery<Session>({
+    queryKey: ['/api/sessions', sessionId],
+    enabled: !!sessionId
+  });
+
+  const pinnedProvider = session?.pinnedProviderId
+    ? providers.find(p => p.id === session.pinnedProviderId)
+    : undefined;
+
+  if (pinnedProvider) {
+    const fallbackAllowed = session?.allowProviderFallback ?? true;
+    return (
+      <div
+        className={`text-xs ${pinnedProvider.configured ? 'text-primary' : 'text-orange-400'} flex items-center gap-1 ${className}`}
+        title={fallbackAllowed ? 'مثبت مع السماح بالمزودين الاحتياطيين' : 'مثبت بدون مزودين احتياطيين'}
+      >
+        <i className="bi bi-pin-angle-fill"></i>
+        <span>{pinnedProvider.name}</span>
+        {!fallbackAllowed && <span className="text-muted-foreground">(بدون بديل)</span>}
+      </div>
+    );
+  }
+
   const configuredProviders = providers.filter(p => p.configured);
-  
+
   if (configuredProviders.length === 0) {
     return (
       <div className={`text-xs text-orange-400 flex items-center gap-1 ${className}`}>
@@ -27,4 +52,4 @@ export default function ProviderStatus({ className = "" }: ProviderStatusProps)
       <span>{configuredProviders[0].name}</span>
     </div>
   );
-}
\ No newline at end of file
+}
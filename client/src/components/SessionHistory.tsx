@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { apiRequest, getApiErrorMessage } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Download, History, Loader, Plus } from "lucide-react";
+import type { PublicUser, Session, SessionExportQuery, SessionPage } from "@shared/schema";
+
+const PAGE_SIZE = 10;
+
+interface SessionHistoryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: PublicUser;
+  currentSession: Session;
+}
+
+export default function SessionHistory({ open, onOpenChange, user, currentSession }: SessionHistoryProps) {
+  const [offset, setOffset] = useState(0);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: page, isLoading } = useQuery<SessionPage>({
+    queryKey: ['/api/users', user.id, 'sessions', offset],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/users/${user.id}/sessions?limit=${PAGE_SIZE}&offset=${offset}`);
+      return response.json();
+    },
+    enabled: open
+  });
+
+  // The chosen session becomes the active one shown in the chat
+  const onActiveSessionChanged = (session: Session) => {
+    queryClient.setQueryData(['/api/sessions', 'active'], session);
+    queryClient.invalidateQueries({ queryKey: ['/api/users', user.id, 'sessions'] });
+    onOpenChange(false);
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "تعذر تغيير الجلسة",
+      description: getApiErrorMessage(error),
+      variant: "destructive"
+    });
+  };
+
+  const resumeMutation = useMutation({
+    mutationFn: async (sessionId: string) => {
+      const response = await apiRequest('POST', `/api/sessions/${sessionId}/resume`);
+      return response.json() as Promise<Session>;
+    },
+    onSuccess: onActiveSessionChanged,
+    onError
+  });
+
+  const newSessionMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/sessions');
+      return response.json() as Promise<Session>;
+    },
+    onSuccess: onActiveSessionChanged,
+    onError
+  });
+
+  const formatDate = (value: string | Date | null) =>
+    value ? new Date(value).toLocaleString('ar', { dateStyle: 'medium', timeStyle: 'short' }) : '-';
+
+  const formatDuration = (session: Session) => {
+    if (!session.startTime) return '-';
+    const end = session.endTime ? new Date(session.endTime).getTime() : Date.now();
+    const minutes = Math.max(0, Math.round((end - new Date(session.startTime).getTime()) / 60000));
+    return minutes < 60 ? `${minutes} دقيقة` : `${Math.floor(minutes / 60)} ساعة ${minutes % 60} دقيقة`;
+  };
+
+  // Report times are shown in the viewer's time zone
+  const exportUrl = (session: Session, format: SessionExportQuery['format']) =>
+    `/api/sessions/${session.id}/export?format=${format}&utcOffset=${-new Date().getTimezoneOffset()}`;
+
+  const total = page?.total ?? 0;
+  const isChanging = resumeMutation.isPending || newSessionMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="glassmorphism border-white/20 max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="text-gradient flex items-center gap-2">
+            <History className="w-5 h-5" />
+            سجل الجلسات
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Button
+            onClick={() => newSessionMutation.mutate()}
+            disabled={isChanging}
+            className="w-full button-enhanced"
+          >
+            <Plus className="w-4 h-4 ml-2" />
+            جلسة جديدة
+          </Button>
+
+          {isLoading && (
+            <div className="flex justify-center py-6">
+              <Loader className="w-5 h-5 animate-spin" />
+            </div>
+          )}
+
+          {page && page.sessions.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">لا توجد جلسات سابقة</p>
+          )}
+
+          <div className="space-y-2 max-h-80 overflow-y-auto scrollbar-hidden">
+            {page?.sessions.map(session => {
+              const isCurrent = session.id === currentSession.id;
+              return (
+                <div
+                  key={session.id}
+                  className="flex items-center justify-between gap-3 p-3 rounded-lg bg-muted/30 border border-white/10"
+                >
+                  <div className="text-sm space-y-1">
+                    <div className="text-white">{formatDate(session.startTime)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      المدة: {formatDuration(session)}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button size="sm" variant="ghost" className="h-8 w-8 p-0" title="تصدير الجلسة">
+                          <Download className="w-4 h-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem asChild>
+                          <a href={exportUrl(session, 'html')} target="_blank" rel="noopener">تقرير للطباعة</a>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <a href={exportUrl(session, 'csv')} download>عينات المشاعر (CSV)</a>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild>
+                          <a href={exportUrl(session, 'json')} download>المحادثة (JSON)</a>
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                    {isCurrent ? (
+                      <Badge variant="secondary">الحالية</Badge>
+                    ) : (
+                      <>
+                        <Badge variant="outline">{session.isActive ? 'نشطة' : 'منتهية'}</Badge>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isChanging}
+                          onClick={() => resumeMutation.mutate(session.id)}
+                        >
+                          استئناف
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {total > PAGE_SIZE && (
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={offset === 0}
+                onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+              >
+                الأحدث
+              </Button>
+              <span>
+                {offset + 1}-{Math.min(offset + PAGE_SIZE, total)} من {total}
+              </span>
+              <Button
+                size="sm"
+                variant="ghost"
+                disabled={offset + PAGE_SIZE >= total}
+                onClick={() => setOffset(offset + PAGE_SIZE)}
+              >
+                الأقدم
+              </Button>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
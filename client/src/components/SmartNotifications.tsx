@@ -1,9 +1,12 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
 import type { EmotionData } from "@shared/schema";
+import type { EmotionName } from "@shared/emotion-smoothing";
 
 interface SmartNotificationsProps {
   currentEmotions: EmotionData | null;
+  // Dominant emotion after hysteresis, so tips do not follow every flicker
+  dominantEmotion: EmotionName | null;
   sessionDuration: number;
 }
 
@@ -16,7 +19,7 @@ interface Notification {
   persistent?: boolean;
 }
 
-export default function SmartNotifications({ currentEmotions, sessionDuration }: SmartNotificationsProps) {
+export default function SmartNotifications({ currentEmotions, dominantEmotion, sessionDuration }: SmartNotificationsProps) {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [dismissed, setDismissed] = useState<Set<string>>(new Set());
   const [lastEmotionCheck, setLastEmotionCheck] = useState<string>('');
@@ -43,10 +46,9 @@ export default function SmartNotifications({ currentEmotions, sessionDuration }:
     }
 
     // Emotion Analysis Tips - with unique timestamped IDs
-    if (currentEmotions && sessionDuration > 60) {
-      const dominantEmotion = Object.entries(currentEmotions).reduce((a, b) => a[1] > b[1] ? a : b);
-      const emotionName = dominantEmotion[0];
-      const emotionIntensity = dominantEmotion[1];
+    if (currentEmotions && dominantEmotion && sessionDuration > 60) {
+      const emotionName = dominantEmotion;
+      const emotionIntensity = currentEmotions[dominantEmotion];
       const emotionKey = `${emotionName}-${Math.floor(emotionIntensity / 10)}`;
 
       // Only show new notification if emotion has changed significantly and cooldown has passed
@@ -128,7 +130,7 @@ export default function SmartNotifications({ currentEmotions, sessionDuration }:
       const filtered = newNotifications.filter(n => !dismissed.has(n.id));
       return [...existing, ...filtered];
     });
-  }, [currentEmotions, sessionDuration, hasAI, dismissed]);
+  }, [currentEmotions, dominantEmotion, sessionDuration, hasAI, dismissed]);
 
   // Auto-dismiss non-persistent notifications after 8 seconds
   useEffect(() => {
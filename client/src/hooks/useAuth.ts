@@ -0,0 +1,94 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import type { PublicUser, SignupData, LoginData, UserProfileUpdate, DeleteAccountData } from "@shared/schema";
+
+// The logged-in account (a guest or a registered user) behind the session cookie
+export function useAuth() {
+  const queryClient = useQueryClient();
+
+  const { data: user, isLoading } = useQuery<PublicUser | null>({
+    queryKey: ['/api/auth/me'],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  // Chat sessions belong to the account, so they are reloaded whenever it
+  // changes, as is the provider list, which needs a login as well
+  const onAuthenticated = (authenticatedUser: PublicUser | null) => {
+    queryClient.setQueryData(['/api/auth/me'], authenticatedUser);
+    queryClient.resetQueries({ queryKey: ['/api/sessions'] });
+    queryClient.resetQueries({ queryKey: ['/api/ai-providers'] });
+  };
+
+  const guestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/auth/guest');
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: onAuthenticated,
+  });
+
+  const signupMutation = useMutation({
+    mutationFn: async (data: SignupData) => {
+      const response = await apiRequest('POST', '/api/auth/signup', data);
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: onAuthenticated,
+  });
+
+  // The guest account becomes the registered one, keeping its sessions
+  const claimGuestMutation = useMutation({
+    mutationFn: async (data: SignupData) => {
+      const response = await apiRequest('POST', '/api/auth/claim', data);
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: (claimedUser) => {
+      queryClient.setQueryData(['/api/auth/me'], claimedUser);
+    },
+  });
+
+  const loginMutation = useMutation({
+    mutationFn: async (data: LoginData) => {
+      const response = await apiRequest('POST', '/api/auth/login', data);
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: onAuthenticated,
+  });
+
+  // Self-reported demographics or camera estimates, see PATCH /api/users/:id
+  const updateProfileMutation = useMutation({
+    mutationFn: async ({ userId, update }: { userId: string; update: UserProfileUpdate }) => {
+      const response = await apiRequest('PATCH', `/api/users/${userId}`, update);
+      return response.json() as Promise<PublicUser>;
+    },
+    onSuccess: (updatedUser) => {
+      queryClient.setQueryData(['/api/auth/me'], updatedUser);
+    },
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest('POST', '/api/auth/logout');
+    },
+    onSuccess: () => onAuthenticated(null),
+  });
+
+  // Erases the account and all its sessions, then signs out
+  const deleteAccountMutation = useMutation({
+    mutationFn: async ({ userId, data }: { userId: string; data: DeleteAccountData }) => {
+      await apiRequest('DELETE', `/api/users/${userId}`, data);
+    },
+    onSuccess: () => onAuthenticated(null),
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    guestMutation,
+    signupMutation,
+    claimGuestMutation,
+    loginMutation,
+    updateProfileMutation,
+    logoutMutation,
+    deleteAccountMutation,
+  };
+}
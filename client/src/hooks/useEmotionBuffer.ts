@@ -1,44 +1,72 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
 import type { EmotionData } from "@shared/schema";
+import {
+  createEmotionSmoother,
+  type EmotionName,
+  type SmoothingOptions
+} from "@shared/emotion-smoothing";
 
 interface EmotionBuffer {
+  // Smoothed estimate after this detection
   emotions: EmotionData;
+  // Raw detection as face-api reported it
+  rawEmotions: EmotionData;
+  dominantEmotion: EmotionName;
   timestamp: number;
+  confidence?: number;
   age?: number;
   gender?: string;
 }
 
-export function useEmotionBuffer() {
+// Entries older than this are dropped from the buffer
+const BUFFER_WINDOW_MS = 60000;
+
+export function useEmotionBuffer(options: Partial<SmoothingOptions> = {}) {
   const [emotionBuffer, setEmotionBuffer] = useState<EmotionBuffer[]>([]);
+  // The smoother keeps its own history across renders
+  const smootherRef = useRef<ReturnType<typeof createEmotionSmoother> | null>(null);
+  if (!smootherRef.current) {
+    smootherRef.current = createEmotionSmoother(options);
+  }
 
-  const addEmotion = useCallback((emotions: EmotionData, age?: number, gender?: string) => {
+  const addEmotion = useCallback((
+    emotions: EmotionData,
+    age?: number,
+    gender?: string,
+    confidence?: number
+  ): EmotionBuffer => {
+    const timestamp = Date.now();
+    const smoothed = smootherRef.current!.push({ emotions, timestamp, confidence });
     const newEntry: EmotionBuffer = {
-      emotions,
-      timestamp: Date.now(),
+      emotions: smoothed.emotions,
+      rawEmotions: emotions,
+      dominantEmotion: smoothed.dominantEmotion,
+      timestamp,
+      confidence,
       age,
       gender
     };
 
-    setEmotionBuffer(prev => {
-      // Keep only last 10 emotion entries for efficiency
-      const updated = [...prev, newEntry].slice(-10);
-      return updated;
-    });
+    setEmotionBuffer(prev => [
+      ...prev.filter(entry => timestamp - entry.timestamp <= BUFFER_WINDOW_MS),
+      newEntry
+    ]);
+    return newEntry;
   }, []);
 
   const getLatestEmotion = useCallback((): EmotionBuffer | null => {
     return emotionBuffer.length > 0 ? emotionBuffer[emotionBuffer.length - 1] : null;
   }, [emotionBuffer]);
 
+  // Confidence-weighted mean of the raw detections in the window
   const getAverageEmotions = useCallback((timeWindowMs: number = 30000): EmotionData | null => {
     const now = Date.now();
-    const recentEmotions = emotionBuffer.filter(entry => 
+    const recentEmotions = emotionBuffer.filter(entry =>
       now - entry.timestamp <= timeWindowMs
     );
 
     if (recentEmotions.length === 0) return null;
 
-    // Calculate average emotions
     const avgEmotions: EmotionData = {
       happy: 0,
       sad: 0,
@@ -49,20 +77,27 @@ export function useEmotionBuffer() {
       neutral: 0
     };
 
+    const weightOf = (entry: EmotionBuffer) => entry.confidence === undefined ? 1 : entry.confidence / 100;
+    let totalWeight = recentEmotions.reduce((sum, entry) => sum + weightOf(entry), 0);
+    const useWeights = totalWeight > 0;
+    if (!useWeights) totalWeight = recentEmotions.length;
+
     recentEmotions.forEach(entry => {
+      const weight = useWeights ? weightOf(entry) : 1;
       Object.keys(avgEmotions).forEach(emotion => {
-        avgEmotions[emotion as keyof EmotionData] += entry.emotions[emotion as keyof EmotionData];
+        avgEmotions[emotion as keyof EmotionData] += entry.rawEmotions[emotion as keyof EmotionData] * weight;
       });
     });
 
     Object.keys(avgEmotions).forEach(emotion => {
-      avgEmotions[emotion as keyof EmotionData] /= recentEmotions.length;
+      avgEmotions[emotion as keyof EmotionData] /= totalWeight;
     });
 
     return avgEmotions;
   }, [emotionBuffer]);
 
   const clearBuffer = useCallback(() => {
+    smootherRef.current!.reset();
     setEmotionBuffer([]);
   }, []);
 
@@ -73,4 +108,4 @@ export function useEmotionBuffer() {
     clearBuffer,
     bufferSize: emotionBuffer.length
   };
-}
\ No newline at end of file
+}
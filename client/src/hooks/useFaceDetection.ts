@@ -1,151 +1,377 @@
 import { useState, useEffect, useRef } from "react";
-import { loadFaceApiModels, detectFaceEmotions } from "@/lib/faceApi";
-import { useMutation } from "@tanstack/react-query";
+import type { DemographicConfidence } from "@/lib/faceApi";
+import type { FaceWorkerRequest, FaceWorkerResponse, WorkerFace } from "@/lib/faceDetectionMessages";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { EmotionData } from "@shared/schema";
+import { MAX_EMOTION_BATCH_SIZE, type EmotionData, type EmotionSample } from "@shared/schema";
+import { createEmotionSmoother, type EmotionName } from "@shared/emotion-smoothing";
+
+// A face followed across frames, with its own smoothed emotion stream
+export interface TrackedFace {
+  trackId: number;
+  emotions: EmotionData;
+  dominantEmotion: EmotionName;
+  lastSeen: number;
+  inFrame: boolean;
+}
+
+export type ModelStatus = 'loading' | 'loaded' | 'error';
+
+// Detection runs at most this often, and slower when inference takes longer
+const MIN_DETECTION_INTERVAL_MS = 500;
+const MAX_DETECTION_INTERVAL_MS = 3000;
+// Share of each period the worker may spend on inference
+const MAX_INFERENCE_SHARE = 0.5;
+const INFERENCE_SMOOTHING = 0.2;
+
+// Faces that left the frame stay selectable for this long
+const FACE_LIST_TTL_MS = 10000;
+
+const NO_EMOTIONS: EmotionData = {
+  happy: 0, sad: 0, angry: 0, surprised: 0, fearful: 0, disgusted: 0, neutral: 0
+};
 
 interface UseFaceDetectionProps {
   videoElement: HTMLVideoElement | null;
   canvasElement: HTMLCanvasElement | null;
-  onDetection: (emotions: EmotionData, age?: number, gender?: string) => void;
+  // Chat session the detections are saved to
+  sessionId: string;
+  onDetection: (
+    emotions: EmotionData,
+    age?: number,
+    gender?: string,
+    demographicConfidence?: DemographicConfidence,
+    confidence?: number
+  ) => void;
 }
 
 export function useFaceDetection({ 
   videoElement, 
   canvasElement, 
+  sessionId,
   onDetection 
 }: UseFaceDetectionProps) {
-  const [isModelsLoaded, setIsModelsLoaded] = useState(false);
+  const [modelStatus, setModelStatus] = useState<ModelStatus>('loading');
+  const isModelsLoaded = modelStatus === 'loaded';
   const [isDetecting, setIsDetecting] = useState(false);
-  const detectionIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [faces, setFaces] = useState<TrackedFace[]>([]);
+  // Track whose emotions are reported; the largest face until the user picks one
+  const [subjectId, setSubjectId] = useState<number | null>(null);
+  const subjectIdRef = useRef<number | null>(null);
+  // Whether the user picked the subject; an automatic pick may be replaced
+  const subjectPickedRef = useRef(false);
+  const streamsRef = useRef(new Map<number, {
+    smoother: ReturnType<typeof createEmotionSmoother>;
+    face: TrackedFace;
+  }>());
+  const workerRef = useRef<Worker | null>(null);
+  const detectingRef = useRef(false);
+  // Bumped on every start and stop; the worker echoes it with each result, so
+  // a frame sent before a restart is not taken for one of the new run
+  const generationRef = useRef(0);
+  // Set while a frame is in the worker, including while it is being grabbed
+  const frameInFlightRef = useRef(false);
+  const nextFrameRef = useRef<NodeJS.Timeout | null>(null);
+  // Running average of the worker's inference time
+  const inferenceMsRef = useRef<number | null>(null);
   const autoSaveIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const lastDetectionRef = useRef<{
-    emotions: EmotionData;
-    age?: number;
-    gender?: string;
-    sessionId?: string;
-  } | null>(null);
-
-  // Auto-save emotion data mutation
-  const saveEmotionMutation = useMutation({
-    mutationFn: async (data: {
-      sessionId: string;
-      emotions: EmotionData;
-      age?: number;
-      gender?: string;
-      confidence: number;
-    }) => {
-      const response = await apiRequest('POST', '/api/emotions', data);
+  // Every detection since the last upload, for the session it was taken in
+  const pendingSamplesRef = useRef<{ sessionId: string; samples: EmotionSample[] }>({
+    sessionId,
+    samples: []
+  });
+  // The worker and timers outlive renders, so they read props through refs
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
+  const onDetectionRef = useRef(onDetection);
+  onDetectionRef.current = onDetection;
+  const elementsRef = useRef({ videoElement, canvasElement });
+  elementsRef.current = { videoElement, canvasElement };
+
+  const queryClient = useQueryClient();
+
+  // Uploads the buffered samples in one request
+  const saveBatchMutation = useMutation({
+    mutationFn: async (batch: { sessionId: string; sentAt: Date; samples: EmotionSample[] }) => {
+      const response = await apiRequest('POST', '/api/emotions/batch', batch);
       return response.json();
-    },
-    onError: (error) => {
-      console.error('Failed to save emotion data:', error);
     }
   });
 
-  // Load Face-API models on mount
-  useEffect(() => {
-    const initModels = async () => {
-      try {
-        await loadFaceApiModels();
-        setIsModelsLoaded(true);
-      } catch (error) {
-        console.error('Failed to load Face-API models:', error);
+  const flushSamples = () => {
+    const { sessionId: batchSessionId, samples } = pendingSamplesRef.current;
+    if (samples.length === 0) return;
+    pendingSamplesRef.current = { sessionId: batchSessionId, samples: [] };
+
+    saveBatchMutation.mutate({ sessionId: batchSessionId, sentAt: new Date(), samples }, {
+      onError: (error) => {
+        console.error('Failed to save emotion data:', error);
+        // Network and server errors are retried with the next upload; the
+        // buffer is capped, so a long outage drops the oldest samples
+        const status = parseInt(error.message, 10);
+        const pending = pendingSamplesRef.current;
+        if ((!status || status >= 500) && pending.sessionId === batchSessionId) {
+          pending.samples = [...samples, ...pending.samples].slice(-MAX_EMOTION_BATCH_SIZE);
+        }
+        // The session ended on the server; the page picks up or starts the
+        // active one rather than waiting for its next refetch
+        if (status === 409) {
+          queryClient.invalidateQueries({ queryKey: ['/api/sessions', 'active'] });
+        }
       }
-    };
+    });
+  };
 
-    initModels();
-  }, []);
+  const bufferSample = (sample: EmotionSample) => {
+    // Samples from an earlier session are sent off before buffering for the new one
+    if (pendingSamplesRef.current.sessionId !== sessionIdRef.current) {
+      flushSamples();
+      pendingSamplesRef.current = { sessionId: sessionIdRef.current, samples: [] };
+    }
+    const pending = pendingSamplesRef.current;
+    pending.samples.push(sample);
+    if (pending.samples.length > MAX_EMOTION_BATCH_SIZE) {
+      pending.samples.shift();
+    }
+  };
 
-  const startDetection = () => {
-    if (!isModelsLoaded || !videoElement || !canvasElement || isDetecting) {
-      return;
+  const setSubject = (trackId: number, pickedByUser: boolean) => {
+    subjectIdRef.current = trackId;
+    subjectPickedRef.current = pickedByUser;
+    setSubjectId(trackId);
+  };
+
+  const selectSubject = (trackId: number) => setSubject(trackId, true);
+
+  // Feeds each face's reading into its own stream and refreshes the face list
+  const updateFaceStreams = (
+    readings: Array<{ trackId: number; emotions: EmotionData; confidence: number }>,
+    now: number
+  ) => {
+    const streams = streamsRef.current;
+    streams.forEach((stream, trackId) => {
+      stream.face.inFrame = false;
+      if (trackId !== subjectIdRef.current && now - stream.face.lastSeen > FACE_LIST_TTL_MS) {
+        streams.delete(trackId);
+      }
+    });
+
+    for (const { trackId, emotions, confidence } of readings) {
+      const smoother = streams.get(trackId)?.smoother ?? createEmotionSmoother();
+      const smoothed = smoother.push({ emotions, timestamp: now, confidence });
+      streams.set(trackId, { smoother, face: { trackId, ...smoothed, lastSeen: now, inFrame: true } });
     }
 
-    setIsDetecting(true);
+    setFaces(Array.from(streams.values(), stream => ({ ...stream.face })).sort((a, b) => a.trackId - b.trackId));
+  };
 
-    // Start face detection loop (every 500ms for smooth detection)
-    detectionIntervalRef.current = setInterval(async () => {
-      try {
-        const result = await detectFaceEmotions(videoElement, canvasElement);
-        
-        if (result) {
-          const sessionId = getCurrentSessionId();
-          lastDetectionRef.current = {
-            emotions: result.emotions,
-            age: result.age,
-            gender: result.gender,
-            sessionId: sessionId || undefined
-          };
-
-          // Notify parent component
-          onDetection(result.emotions, result.age, result.gender);
-        }
-      } catch (error) {
-        console.error('Face detection error:', error);
+  // Detections the worker reports for the chosen subject are recorded and
+  // passed on; the other faces only feed their own streams
+  const handleResult = (faces: WorkerFace[], overlay: ImageBitmap, inferenceMs: number) => {
+    drawOverlay(overlay);
+
+    const now = Date.now();
+    // An automatic subject gives way to the largest face in view once it has
+    // been gone as long as the face list keeps absent faces; the user's pick
+    // stays until they pick another
+    const current = subjectIdRef.current;
+    if (!subjectPickedRef.current && faces.length > 0 && !faces.some(face => face.trackId === current)) {
+      const lastSeen = current === null ? undefined : streamsRef.current.get(current)?.face.lastSeen;
+      if (lastSeen === undefined || now - lastSeen > FACE_LIST_TTL_MS) {
+        if (current !== null) streamsRef.current.delete(current);
+        const area = (face: WorkerFace) => face.box.width * face.box.height;
+        setSubject(faces.reduce((best, face) => area(face) > area(best) ? face : best).trackId, false);
       }
-    }, 500);
-
-    // Start auto-save loop (every 5 seconds)
-    autoSaveIntervalRef.current = setInterval(() => {
-      if (lastDetectionRef.current) {
-        const sessionId = getCurrentSessionId();
-        if (sessionId) {
-          saveEmotionMutation.mutate({
-            sessionId,
-            emotions: lastDetectionRef.current.emotions,
-            age: lastDetectionRef.current.age,
-            gender: lastDetectionRef.current.gender,
-            confidence: 85 // Default confidence level
-          });
+    }
+    const subject = faces.find(face => face.trackId === subjectIdRef.current);
+
+    updateFaceStreams(faces.map(face => ({
+      trackId: face.trackId,
+      emotions: face.emotions,
+      confidence: face.quality.confidence
+    })), now);
+
+    if (subject) {
+      bufferSample({
+        timestamp: new Date(now),
+        emotions: subject.emotions,
+        age: subject.age,
+        gender: subject.gender,
+        confidence: subject.quality.confidence
+      });
+
+      // Notify parent component
+      onDetectionRef.current(
+        subject.emotions,
+        subject.age,
+        subject.gender,
+        subject.demographicConfidence,
+        subject.quality.confidence
+      );
+    } else if (faces.length > 0) {
+      // Someone else is in view: mark the frame instead of reporting
+      // their emotions as the subject's
+      bufferSample({ timestamp: new Date(now), emotions: NO_EMOTIONS, subjectPresent: false });
+    }
+
+    scheduleNextFrame(inferenceMs);
+  };
+
+  const handleWorkerMessage = (message: FaceWorkerResponse) => {
+    switch (message.type) {
+      case 'loaded':
+        setModelStatus('loaded');
+        break;
+      case 'load-error':
+        console.error('Failed to load Face-API models:', message.message);
+        setModelStatus('error');
+        break;
+      case 'result':
+        frameInFlightRef.current = false;
+        if (message.generation === generationRef.current) {
+          handleResult(message.faces, message.overlay, message.inferenceMs);
+        } else {
+          // Sent before the last stop. A restart since then held its first
+          // frame back until this one was out of the worker.
+          message.overlay.close();
+          scheduleNextFrame(message.inferenceMs);
         }
-      }
-    }, 5000);
+        break;
+      case 'detect-error':
+        frameInFlightRef.current = false;
+        console.error('Face detection error:', message.message);
+        scheduleNextFrame(0);
+        break;
+    }
   };
+  const handleWorkerMessageRef = useRef(handleWorkerMessage);
+  handleWorkerMessageRef.current = handleWorkerMessage;
 
-  const stopDetection = () => {
-    setIsDetecting(false);
+  const postToWorker = (request: FaceWorkerRequest, transfer: Transferable[] = []) => {
+    workerRef.current?.postMessage(request, transfer);
+  };
 
-    if (detectionIntervalRef.current) {
-      clearInterval(detectionIntervalRef.current);
-      detectionIntervalRef.current = null;
+  // The overlay canvas shows bitmaps drawn by the worker; null clears it
+  const drawOverlay = (overlay: ImageBitmap | null) => {
+    const ctx = elementsRef.current.canvasElement?.getContext('bitmaprenderer');
+    if (ctx) {
+      ctx.transferFromImageBitmap(overlay);
+    } else {
+      overlay?.close();
     }
+  };
 
-    if (autoSaveIntervalRef.current) {
-      clearInterval(autoSaveIntervalRef.current);
-      autoSaveIntervalRef.current = null;
-    }
+  // One frame is in the worker at a time. The next one is taken after the
+  // result is in, spaced out so inference fills at most part of each period.
+  const scheduleNextFrame = (lastInferenceMs: number) => {
+    if (!detectingRef.current) return;
+    const average = inferenceMsRef.current === null
+      ? lastInferenceMs
+      : inferenceMsRef.current + INFERENCE_SMOOTHING * (lastInferenceMs - inferenceMsRef.current);
+    inferenceMsRef.current = average;
 
-    // Clear canvas
-    if (canvasElement) {
-      const ctx = canvasElement.getContext('2d');
-      if (ctx) {
-        ctx.clearRect(0, 0, canvasElement.width, canvasElement.height);
+    const period = Math.min(
+      MAX_DETECTION_INTERVAL_MS,
+      Math.max(MIN_DETECTION_INTERVAL_MS, average / MAX_INFERENCE_SHARE)
+    );
+    nextFrameRef.current = setTimeout(captureFrame, Math.max(0, period - lastInferenceMs));
+  };
+
+  const captureFrame = async () => {
+    nextFrameRef.current = null;
+    const { videoElement } = elementsRef.current;
+    if (!detectingRef.current || !videoElement || frameInFlightRef.current) return;
+
+    frameInFlightRef.current = true;
+    try {
+      const frame = await createImageBitmap(videoElement);
+      if (!detectingRef.current) {
+        frame.close();
+        frameInFlightRef.current = false;
+        return;
       }
+      postToWorker({
+        type: 'detect',
+        frame,
+        subjectId: subjectIdRef.current,
+        generation: generationRef.current
+      }, [frame]);
+    } catch (error) {
+      // The video may not have a frame yet
+      frameInFlightRef.current = false;
+      console.error('Face detection error:', error);
+      scheduleNextFrame(0);
     }
   };
 
-  // Get current session ID from localStorage
-  const getCurrentSessionId = (): string | null => {
-    const sessionData = localStorage.getItem('emotional_ai_session');
-    if (sessionData) {
-      const session = JSON.parse(sessionData);
-      return session.id;
-    }
-    return null;
+  const loadModels = () => {
+    setModelStatus('loading');
+    postToWorker({ type: 'load' });
   };
 
-  // Cleanup on unmount
+  // Start the worker and load the Face-API models in it on mount
   useEffect(() => {
+    const worker = new Worker(new URL('../workers/faceDetection.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<FaceWorkerResponse>) => handleWorkerMessageRef.current(event.data);
+    worker.onerror = (event) => {
+      console.error('Face detection worker failed:', event.message);
+      setModelStatus('error');
+    };
+    workerRef.current = worker;
+    loadModels();
+
     return () => {
       stopDetection();
+      worker.terminate();
+      workerRef.current = null;
     };
   }, []);
 
+  const startDetection = () => {
+    const { videoElement, canvasElement } = elementsRef.current;
+    if (!isModelsLoaded || !videoElement || !canvasElement || detectingRef.current) {
+      return;
+    }
+
+    generationRef.current++;
+    detectingRef.current = true;
+    setIsDetecting(true);
+    // Waits for the result instead when a frame from before a stop is still out
+    captureFrame();
+
+    // Upload the buffered samples every 5 seconds
+    autoSaveIntervalRef.current = setInterval(flushSamples, 5000);
+  };
+
+  const stopDetection = () => {
+    generationRef.current++;
+    detectingRef.current = false;
+    setIsDetecting(false);
+
+    if (nextFrameRef.current) {
+      clearTimeout(nextFrameRef.current);
+      nextFrameRef.current = null;
+    }
+
+    if (autoSaveIntervalRef.current) {
+      clearInterval(autoSaveIntervalRef.current);
+      autoSaveIntervalRef.current = null;
+    }
+    flushSamples();
+
+    // Clear canvas
+    drawOverlay(null);
+  };
+
   return {
     isModelsLoaded,
+    modelStatus,
+    retryModelLoad: loadModels,
     isDetecting,
     startDetection,
-    stopDetection
+    stopDetection,
+    faces,
+    subjectId,
+    selectSubject
   };
 }
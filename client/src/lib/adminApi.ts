@@ -0,0 +1,62 @@
+const ADMIN_TOKEN_KEY = "adminToken";
+
+export interface MaskedCredential {
+  providerId: string;
+  maskedKey: string;
+  source: "stored" | "environment";
+  updatedAt: string | null;
+  lastValidatedAt: string | null;
+}
+
+export interface ProviderCredentialsResponse {
+  storageEnabled: boolean;
+  credentials: MaskedCredential[];
+}
+
+// Kept for the browser tab only, never in localStorage
+export function getAdminToken(): string {
+  return sessionStorage.getItem(ADMIN_TOKEN_KEY) || "";
+}
+
+export function setAdminToken(token: string) {
+  if (token) {
+    sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  } else {
+    sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+  }
+}
+
+// Like apiRequest, but authenticated with the admin token and surfacing the
+// server's `error` message instead of the raw body
+export async function adminRequest(
+  method: string,
+  url: string,
+  data?: unknown | undefined,
+): Promise<Response> {
+  const headers: Record<string, string> = { "X-Admin-Token": getAdminToken() };
+  if (data) headers["Content-Type"] = "application/json";
+
+  const res = await fetch(url, {
+    method,
+    headers,
+    body: data ? JSON.stringify(data) : undefined,
+    credentials: "include",
+  });
+
+  if (!res.ok) {
+    const text = await res.text();
+    let message = text || res.statusText;
+    try {
+      message = JSON.parse(text).error || message;
+    } catch {
+      // not JSON, keep the raw text
+    }
+    throw new Error(message);
+  }
+  return res;
+}
+
+export async function saveProviderKey(providerId: string, apiKey: string): Promise<MaskedCredential> {
+  const res = await adminRequest("PUT", `/api/provider-credentials/${providerId}`, { apiKey });
+  return res.json();
+}
@@ -0,0 +1,89 @@
+import type { ChatMessage, ChatStreamEvent, EmotionData } from "@shared/schema";
+
+export interface ChatStreamRequest {
+  sessionId: string;
+  isUser: true;
+  content: string;
+  emotionContext: EmotionData | null;
+}
+
+export interface ChatStreamHandlers {
+  onUserMessage?: (message: ChatMessage) => void;
+  onChunk: (text: string) => void;
+  onRestart?: () => void;
+}
+
+export interface ChatStreamResult {
+  aiMessage: ChatMessage;
+  provider: string;
+}
+
+// POSTs a chat message to /api/chat/stream and dispatches the SSE events it
+// sends back. Resolves with the persisted AI message once `done` arrives.
+export async function streamChatMessage(
+  request: ChatStreamRequest,
+  handlers: ChatStreamHandlers
+): Promise<ChatStreamResult> {
+  const res = await fetch("/api/chat/stream", {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(request),
+    credentials: "include",
+  });
+
+  if (!res.ok || !res.body) {
+    const text = (await res.text()) || res.statusText;
+    throw new Error(`${res.status}: ${text}`);
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let result: ChatStreamResult | null = null;
+
+  const dispatch = (message: ChatStreamEvent) => {
+    switch (message.event) {
+      case "user":
+        handlers.onUserMessage?.(message.data);
+        break;
+      case "chunk":
+        handlers.onChunk(message.data.text);
+        break;
+      case "restart":
+        handlers.onRestart?.();
+        break;
+      case "done":
+        result = message.data;
+        break;
+      case "error":
+        throw new Error(message.data.error || "Stream failed");
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const dataLines: string[] = [];
+      for (const line of rawEvent.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) dataLines.push(line.slice(5).trimStart());
+      }
+      if (dataLines.length > 0) {
+        dispatch({ event, data: JSON.parse(dataLines.join("\n")) } as ChatStreamEvent);
+      }
+    }
+  }
+
+  if (!result) {
+    throw new Error("Stream ended before the response was complete");
+  }
+  return result;
+}
@@ -0,0 +1,106 @@
+import type { EmotionData } from '@shared/schema';
+
+// Everything that goes into a detection's confidence, each between 0 and 1
+// except the entropy, which is in nats
+export interface DetectionQuality {
+  // TinyFaceDetector's score for the face box
+  detectorScore: number;
+  // Top expression probability minus the runner-up
+  expressionMargin: number;
+  // Entropy of the expression distribution; ln(7) when all are equally likely
+  expressionEntropy: number;
+  // Face height relative to the frame, scaled so that FULL_SIZE_RATIO is 1
+  faceSize: number;
+  // Laplacian variance of the face crop, scaled so that SHARP_VARIANCE is 1
+  sharpness: number;
+  // 1 for a frontal, upright face, falling with head yaw and roll
+  pose: number;
+  // Combined confidence as a percentage
+  confidence: number;
+}
+
+const FULL_SIZE_RATIO = 0.2;
+const SHARP_VARIANCE = 250;
+const MAX_YAW = 0.6; // nose offset from the eye midpoint, in eye distances
+const MAX_ROLL = Math.PI / 4;
+
+// Weighted geometric mean: a factor near zero pulls the confidence down no
+// matter how good the others are
+const CONFIDENCE_WEIGHTS = { detector: 0.4, quality: 0.35, expression: 0.25 };
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// Margin and entropy of face-api's expression probabilities (0-1)
+export function expressionSpread(probabilities: number[]): { margin: number; entropy: number } {
+  const sorted = [...probabilities].sort((a, b) => b - a);
+  const total = sorted.reduce((sum, p) => sum + p, 0) || 1;
+  const entropy = sorted.reduce((sum, p) => {
+    const normalized = p / total;
+    return normalized > 0 ? sum - normalized * Math.log(normalized) : sum;
+  }, 0);
+  return { margin: (sorted[0] - (sorted[1] ?? 0)) / total, entropy };
+}
+
+// How clearly one expression stands out, from 0 (all equal) to 1 (only one)
+export function expressionCertainty(margin: number, entropy: number, classes: number): number {
+  const normalizedEntropy = classes > 1 ? entropy / Math.log(classes) : 0;
+  return clamp01((margin + (1 - normalizedEntropy)) / 2);
+}
+
+export function faceSizeScore(faceHeight: number, frameHeight: number): number {
+  return frameHeight > 0 ? clamp01(faceHeight / frameHeight / FULL_SIZE_RATIO) : 0;
+}
+
+// Variance of the 4-neighbour Laplacian over a grayscale image; blurry crops
+// have little high-frequency content and score low
+export function sharpnessScore(gray: Float32Array, width: number, height: number): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const laplacian = gray[i - 1] + gray[i + 1] + gray[i - width] + gray[i + width] - 4 * gray[i];
+      sum += laplacian;
+      sumSquares += laplacian * laplacian;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return clamp01((sumSquares / count - mean * mean) / SHARP_VARIANCE);
+}
+
+type Point = { x: number; y: number };
+
+const centroid = (points: Point[]): Point => ({
+  x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+  y: points.reduce((sum, p) => sum + p.y, 0) / points.length
+});
+
+// Head yaw and roll from the 68-point landmarks: the nose tip drifts sideways
+// from the eye midpoint as the head turns, the eye line tilts as it rolls
+export function poseScore(leftEye: Point[], rightEye: Point[], noseTip: Point): number {
+  const left = centroid(leftEye);
+  const right = centroid(rightEye);
+  const eyeDistance = Math.hypot(right.x - left.x, right.y - left.y);
+  if (eyeDistance === 0) return 0;
+
+  const yaw = (noseTip.x - (left.x + right.x) / 2) / eyeDistance;
+  const roll = Math.atan2(right.y - left.y, right.x - left.x);
+  return clamp01(1 - Math.abs(yaw) / MAX_YAW) * clamp01(1 - Math.abs(roll) / MAX_ROLL);
+}
+
+export function combineConfidence(factors: Omit<DetectionQuality, 'confidence'>, classes: number): number {
+  const quality = Math.cbrt(factors.faceSize * factors.sharpness * factors.pose);
+  const certainty = expressionCertainty(factors.expressionMargin, factors.expressionEntropy, classes);
+  const combined =
+    Math.pow(clamp01(factors.detectorScore), CONFIDENCE_WEIGHTS.detector) *
+    Math.pow(quality, CONFIDENCE_WEIGHTS.quality) *
+    Math.pow(certainty, CONFIDENCE_WEIGHTS.expression);
+  return Math.round(combined * 100);
+}
+
+export function expressionProbabilities(emotions: EmotionData): number[] {
+  return Object.values(emotions).map(value => value / 100);
+}
@@ -1,101 +1,242 @@
 import * as faceapi from 'face-api.js';
 import type { EmotionData } from '@shared/schema';
+import { FACE_MODEL_FILES, FACE_MODEL_PATH, FACE_MODEL_VERSION } from '@shared/face-models';
+import {
+  combineConfidence,
+  expressionProbabilities,
+  expressionSpread,
+  faceSizeScore,
+  poseScore,
+  sharpnessScore,
+  type DetectionQuality
+} from './detectionConfidence';
+
+// Runs inside the face detection worker (see workers/faceDetection.worker.ts);
+// frames arrive as ImageBitmaps and are drawn onto OffscreenCanvases
 
 let modelsLoaded = false;
+let modelsLoading: Promise<void> | null = null;
 
-export async function loadFaceApiModels(): Promise<void> {
-  if (modelsLoaded) return;
+// Our own server by default; VITE_FACE_MODEL_URL may point at another host
+// serving the same pinned files
+const MODEL_URL = (import.meta.env.VITE_FACE_MODEL_URL || `${FACE_MODEL_PATH}/${FACE_MODEL_VERSION}`).replace(/\/$/, '');
 
-  try {
-    const MODEL_URL = 'https://cdn.jsdelivr.net/npm/@vladmandic/face-api@latest/model';
-    
-    await Promise.all([
-      faceapi.nets.tinyFaceDetector.loadFromUri(MODEL_URL),
-      faceapi.nets.faceLandmark68Net.loadFromUri(MODEL_URL),
-      faceapi.nets.faceRecognitionNet.loadFromUri(MODEL_URL),
-      faceapi.nets.faceExpressionNet.loadFromUri(MODEL_URL),
-      faceapi.nets.ageGenderNet.loadFromUri(MODEL_URL)
-    ]);
-
-    modelsLoaded = true;
-    console.log('Face-API models loaded successfully');
-  } catch (error) {
-    console.error('Failed to load Face-API models:', error);
-    throw error;
+// Face crops are scaled to this size before measuring their sharpness, so the
+// score does not depend on how close the face is
+const SHARPNESS_SAMPLE_SIZE = 64;
+let sharpnessCanvas: OffscreenCanvas | null = null;
+
+// How sure the models are about the age and gender of a detection, in percent
+export interface DemographicConfidence {
+  age: number;
+  gender: number;
+}
+
+// face-api only recognizes a window or Node.js on its own; in a worker it
+// works on OffscreenCanvases, which TensorFlow reads like regular canvases
+export function setupWorkerEnvironment(): void {
+  class Unavailable {}
+  faceapi.env.setEnv({
+    Canvas: OffscreenCanvas as unknown as typeof HTMLCanvasElement,
+    CanvasRenderingContext2D: OffscreenCanvasRenderingContext2D as unknown as typeof CanvasRenderingContext2D,
+    Image: Unavailable as unknown as typeof HTMLImageElement,
+    ImageData,
+    Video: Unavailable as unknown as typeof HTMLVideoElement,
+    createCanvasElement: () => new OffscreenCanvas(1, 1) as unknown as HTMLCanvasElement,
+    createImageElement: () => {
+      throw new Error('Image elements are not available in a worker');
+    },
+    fetch: (url, init) => fetch(url, init),
+    readFile: () => {
+      throw new Error('Files are not available in a worker');
+    }
+  });
+}
+
+// The browser checks every model file against its pinned hash, so a
+// tampered or mismatched file fails to load instead of being run
+async function fetchModelFile(file: string): Promise<Response> {
+  const hash = FACE_MODEL_FILES[file];
+  if (!hash) {
+    throw new Error(`Unexpected model file: ${file}`);
+  }
+  const response = await fetch(`${MODEL_URL}/${file}`, { integrity: `sha256-${hash}` });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch model file ${file}: ${response.status}`);
   }
+  return response;
 }
 
-export async function detectFaceEmotions(
-  video: HTMLVideoElement,
-  canvas: HTMLCanvasElement
-): Promise<{
+// Like net.loadFromUri, which fetches the weight shards through TensorFlow
+// and cannot pass an integrity hash for each of them
+async function loadVerifiedModel(net: faceapi.NeuralNetwork<any>, modelName: string): Promise<void> {
+  const manifest: faceapi.tf.io.WeightsManifestConfig =
+    await (await fetchModelFile(`${modelName}-weights_manifest.json`)).json();
+  const shards = await Promise.all(
+    manifest.flatMap(group => group.paths).map(async file => (await fetchModelFile(file)).arrayBuffer())
+  );
+  const specs = manifest.flatMap(group => group.weights);
+  net.loadFromWeightMap(faceapi.tf.io.decodeWeights(faceapi.tf.io.concatenateArrayBuffers(shards), specs));
+}
+
+// Concurrent callers share one load; after a failure the next call retries
+export function loadFaceApiModels(): Promise<void> {
+  if (modelsLoaded) return Promise.resolve();
+  if (modelsLoading) return modelsLoading;
+
+  modelsLoading = (async () => {
+    try {
+      await Promise.all([
+        loadVerifiedModel(faceapi.nets.tinyFaceDetector, 'tiny_face_detector_model'),
+        loadVerifiedModel(faceapi.nets.faceLandmark68Net, 'face_landmark_68_model'),
+        loadVerifiedModel(faceapi.nets.faceRecognitionNet, 'face_recognition_model'),
+        loadVerifiedModel(faceapi.nets.faceExpressionNet, 'face_expression_model'),
+        loadVerifiedModel(faceapi.nets.ageGenderNet, 'age_gender_model')
+      ]);
+
+      modelsLoaded = true;
+      console.log('Face-API models loaded successfully');
+    } catch (error) {
+      console.error('Failed to load Face-API models:', error);
+      throw error;
+    } finally {
+      modelsLoading = null;
+    }
+  })();
+  return modelsLoading;
+}
+
+// One face in a frame, with everything the models read from it
+export interface DetectedFace {
   emotions: EmotionData;
   age?: number;
   gender?: string;
-} | null> {
+  demographicConfidence?: DemographicConfidence;
+  quality: DetectionQuality;
+  // Face recognition embedding, used to follow the person across frames
+  descriptor: Float32Array;
+  box: { x: number; y: number; width: number; height: number };
+  landmarks: faceapi.FaceLandmarks68;
+}
+
+// How a face is outlined on the overlay
+export interface FaceOverlay {
+  face: Pick<DetectedFace, 'box' | 'landmarks'>;
+  label: string;
+  highlighted: boolean;
+}
+
+// Every face in the frame, most confident first
+export async function detectFaceEmotions(frame: OffscreenCanvas): Promise<DetectedFace[]> {
   if (!modelsLoaded) {
     throw new Error('Face-API models not loaded');
   }
 
   try {
     const detections = await faceapi
-      .detectAllFaces(video, new faceapi.TinyFaceDetectorOptions())
+      .detectAllFaces(frame as unknown as HTMLCanvasElement, new faceapi.TinyFaceDetectorOptions())
       .withFaceLandmarks()
       .withFaceExpressions()
-      .withAgeAndGender();
+      .withAgeAndGender()
+      .withFaceDescriptors();
 
-    // Clear canvas
-    const ctx = canvas.getContext('2d');
-    if (ctx) {
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-    }
+    return detections
+      .sort((a, b) => b.detection.score - a.detection.score)
+      .map(detection => {
+        // Extract emotion data
+        const expressions = detection.expressions;
+        const emotions: EmotionData = {
+          happy: expressions.happy * 100,
+          sad: expressions.sad * 100,
+          angry: expressions.angry * 100,
+          surprised: expressions.surprised * 100,
+          fearful: expressions.fearful * 100,
+          disgusted: expressions.disgusted * 100,
+          neutral: expressions.neutral * 100
+        };
 
-    if (detections && detections.length > 0) {
-      // Use the first (most confident) detection
-      const detection = detections[0];
+        // The age model gives no probability of its own, so the face detector's
+        // score stands in for it
+        const demographicConfidence: DemographicConfidence = {
+          age: Math.round(detection.detection.score * 100),
+          gender: Math.round(detection.genderProbability * 100)
+        };
 
-      // Draw face detection box and landmarks
-      const resizedDetections = faceapi.resizeResults([detection], {
-        width: video.videoWidth,
-        height: video.videoHeight
+        const { x, y, width, height } = detection.detection.box;
+        return {
+          emotions,
+          age: Math.round(detection.age),
+          gender: detection.gender,
+          demographicConfidence,
+          quality: measureQuality(frame, detection, emotions),
+          descriptor: detection.descriptor,
+          box: { x, y, width, height },
+          landmarks: detection.landmarks
+        };
       });
+  } catch (error) {
+    console.error('Face detection error:', error);
+    return [];
+  }
+}
+
+// Draws the face boxes and landmarks; the canvas matches the frame size
+export function drawFaceOverlays(offscreen: OffscreenCanvas, overlays: FaceOverlay[]): void {
+  const ctx = offscreen.getContext('2d');
+  if (!ctx) return;
+  ctx.clearRect(0, 0, offscreen.width, offscreen.height);
 
-      if (ctx) {
-        // Draw face box
-        faceapi.draw.drawDetections(canvas, resizedDetections);
-        
-        // Draw facial landmarks
-        faceapi.draw.drawFaceLandmarks(canvas, resizedDetections);
-      }
-
-      // Extract emotion data
-      const expressions = detection.expressions;
-      const emotions: EmotionData = {
-        happy: expressions.happy * 100,
-        sad: expressions.sad * 100,
-        angry: expressions.angry * 100,
-        surprised: expressions.surprised * 100,
-        fearful: expressions.fearful * 100,
-        disgusted: expressions.disgusted * 100,
-        neutral: expressions.neutral * 100
-      };
-
-      // Extract age and gender
-      const age = Math.round(detection.age);
-      const gender = detection.gender;
-
-      return {
-        emotions,
-        age,
-        gender
-      };
+  const canvas = offscreen as unknown as HTMLCanvasElement;
+  for (const { face, label, highlighted } of overlays) {
+    const { x, y, width, height } = face.box;
+    new faceapi.draw.DrawBox(new faceapi.Rect(x, y, width, height), {
+      label,
+      boxColor: highlighted ? 'rgba(34, 197, 94, 1)' : 'rgba(148, 163, 184, 0.8)',
+      lineWidth: highlighted ? 3 : 1
+    }).draw(canvas);
+    if (highlighted) {
+      faceapi.draw.drawFaceLandmarks(canvas, face.landmarks);
     }
+  }
+}
 
-    return null;
-  } catch (error) {
-    console.error('Face detection error:', error);
-    return null;
+type FullDetection = faceapi.WithFaceLandmarks<{ detection: faceapi.FaceDetection }>;
+
+// Scores the detection, the face image and the expression reading, and
+// combines them into one confidence
+function measureQuality(frame: OffscreenCanvas, detection: FullDetection, emotions: EmotionData): DetectionQuality {
+  const box = detection.detection.box;
+  const probabilities = expressionProbabilities(emotions);
+  const { margin, entropy } = expressionSpread(probabilities);
+  const landmarks = detection.landmarks;
+
+  const factors = {
+    detectorScore: detection.detection.score,
+    expressionMargin: margin,
+    expressionEntropy: entropy,
+    faceSize: faceSizeScore(box.height, frame.height),
+    sharpness: measureSharpness(frame, box),
+    pose: poseScore(landmarks.getLeftEye(), landmarks.getRightEye(), landmarks.positions[30])
+  };
+
+  return { ...factors, confidence: combineConfidence(factors, probabilities.length) };
+}
+
+function measureSharpness(frame: OffscreenCanvas, box: faceapi.Box): number {
+  if (!sharpnessCanvas) {
+    sharpnessCanvas = new OffscreenCanvas(SHARPNESS_SAMPLE_SIZE, SHARPNESS_SAMPLE_SIZE);
+  }
+  const ctx = sharpnessCanvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx || box.width <= 0 || box.height <= 0) return 0;
+
+  const size = SHARPNESS_SAMPLE_SIZE;
+  ctx.drawImage(frame, box.x, box.y, box.width, box.height, 0, 0, size, size);
+  const { data } = ctx.getImageData(0, 0, size, size);
+  const gray = new Float32Array(size * size);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
   }
+  return sharpnessScore(gray, size, size);
 }
 
 export function isModelsLoaded(): boolean {
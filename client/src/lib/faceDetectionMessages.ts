@@ -0,0 +1,25 @@
+import type { DetectedFace } from './faceApi';
+
+// A face as the worker reports it, tagged with the track that follows it
+export type WorkerFace = Omit<DetectedFace, 'descriptor' | 'landmarks'> & { trackId: number };
+
+// Messages from the page to the face detection worker
+export type FaceWorkerRequest =
+  | { type: 'load' }
+  // The frame is transferred; the subject's box is highlighted on the overlay.
+  // The generation is echoed in the reply.
+  | { type: 'detect'; frame: ImageBitmap; subjectId: number | null; generation: number };
+
+// Messages from the worker back to the page
+export type FaceWorkerResponse =
+  | { type: 'loaded' }
+  | { type: 'load-error'; message: string }
+  | {
+      type: 'result';
+      faces: WorkerFace[];
+      // Face boxes and landmarks, the same size as the frame
+      overlay: ImageBitmap;
+      inferenceMs: number;
+      generation: number;
+    }
+  | { type: 'detect-error'; message: string; generation: number };
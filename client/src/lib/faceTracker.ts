@@ -0,0 +1,67 @@
+import * as faceapi from 'face-api.js';
+
+// Descriptors of the same person are usually within 0.4-0.5 of each other;
+// face-api's own matcher uses 0.6 for "different people"
+const MATCH_DISTANCE = 0.5;
+// Tracks not seen for this long are forgotten, except the pinned one
+const TRACK_TTL_MS = 2 * 60 * 1000;
+// How much a new frame moves a track's descriptor
+const DESCRIPTOR_UPDATE_RATE = 0.2;
+
+export interface FaceTrack {
+  id: number;
+  descriptor: Float32Array;
+  firstSeen: number;
+  lastSeen: number;
+}
+
+// Follows faces from frame to frame by their recognition descriptors, so the
+// same person keeps the same track id while others come and go
+export function createFaceTracker() {
+  let tracks: FaceTrack[] = [];
+  let nextId = 1;
+
+  return {
+    // Returns the track id of each face, in the order given. `pinnedId` is
+    // kept even when it has not been seen for a while.
+    update(descriptors: Float32Array[], now: number, pinnedId?: number | null): number[] {
+      tracks = tracks.filter(track => track.id === pinnedId || now - track.lastSeen <= TRACK_TTL_MS);
+
+      // Closest pairs are matched first; each track takes at most one face
+      const pairs: Array<{ face: number; track: FaceTrack; distance: number }> = [];
+      descriptors.forEach((descriptor, face) => {
+        tracks.forEach(track => {
+          const distance = faceapi.euclideanDistance(descriptor, track.descriptor);
+          if (distance < MATCH_DISTANCE) pairs.push({ face, track, distance });
+        });
+      });
+      pairs.sort((a, b) => a.distance - b.distance);
+
+      const assigned = new Map<number, FaceTrack>();
+      const usedTracks = new Set<number>();
+      for (const pair of pairs) {
+        if (assigned.has(pair.face) || usedTracks.has(pair.track.id)) continue;
+        assigned.set(pair.face, pair.track);
+        usedTracks.add(pair.track.id);
+      }
+
+      return descriptors.map((descriptor, face) => {
+        const track = assigned.get(face);
+        if (track) {
+          track.descriptor = track.descriptor.map((value, i) =>
+            value + DESCRIPTOR_UPDATE_RATE * (descriptor[i] - value)
+          );
+          track.lastSeen = now;
+          return track.id;
+        }
+        const created: FaceTrack = { id: nextId++, descriptor, firstSeen: now, lastSeen: now };
+        tracks.push(created);
+        return created.id;
+      });
+    },
+    reset() {
+      tracks = [];
+      nextId = 1;
+    }
+  };
+}
@@ -7,6 +7,17 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Message from an apiRequest error, preferring the server's `error` field
+// over the raw "<status>: <body>" text
+export function getApiErrorMessage(error: Error): string {
+  const body = error.message.replace(/^\d{3}: /, "");
+  try {
+    return JSON.parse(body).error || body;
+  } catch {
+    return body;
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
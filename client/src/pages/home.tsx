@@ -1,35 +1,68 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import ChatInterface from "@/components/ChatInterface";
 import MonitoringPanel from "@/components/MonitoringPanel";
 import AutoSetupDialog from "@/components/AutoSetupDialog";
 import SmartNotifications from "@/components/SmartNotifications";
 import SidebarToggle from "@/components/SidebarToggle";
 import { useEmotionBuffer } from "@/hooks/useEmotionBuffer";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import type { User, Session, EmotionData } from "@shared/schema";
+import type { DemographicConfidence } from "@/lib/faceApi";
+import type { PublicUser, Session, EmotionData, SignupData, LoginData, UserProfileUpdate, DeleteAccountData } from "@shared/schema";
+import type { EmotionName } from "@shared/emotion-smoothing";
+
+// Camera estimates of age and gender are sent to the profile at most this often
+const ESTIMATE_SYNC_INTERVAL_MS = 60 * 1000;
 
 export default function Home() {
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
-  const [currentSession, setCurrentSession] = useState<Session | null>(null);
+  const {
+    user,
+    isLoading: isAuthLoading,
+    guestMutation,
+    signupMutation,
+    claimGuestMutation,
+    loginMutation,
+    updateProfileMutation,
+    logoutMutation,
+    deleteAccountMutation
+  } = useAuth();
+  const [currentUser, setCurrentUser] = useState<PublicUser | null>(null);
   const [currentEmotions, setCurrentEmotions] = useState<EmotionData | null>(null);
+  const [currentConfidence, setCurrentConfidence] = useState<number | null>(null);
+  const [dominantEmotion, setDominantEmotion] = useState<EmotionName | null>(null);
   const [showMobilePanel, setShowMobilePanel] = useState(false);
+  // Time picked on the emotion timeline; the chat scrolls to its messages
+  const [chatJumpTime, setChatJumpTime] = useState<Date | null>(null);
   const [showAutoSetup, setShowAutoSetup] = useState(false);
   const [sessionStartTime] = useState(Date.now());
   const emotionBuffer = useEmotionBuffer();
 
-  // Initialize guest user on mount and check for auto-setup
+  const queryClient = useQueryClient();
+
+  // Visitors without an account get a server-side guest account
   useEffect(() => {
-    const storedUser = localStorage.getItem('emotional_ai_user');
-    const storedSession = localStorage.getItem('emotional_ai_session');
-    const hasSeenSetup = localStorage.getItem('emotional_ai_setup_seen');
-    
-    if (storedUser && storedSession) {
-      setCurrentUser(JSON.parse(storedUser));
-      setCurrentSession(JSON.parse(storedSession));
-    } else {
-      createGuestUser();
+    if (!isAuthLoading && !user && guestMutation.isIdle) {
+      guestMutation.mutate();
     }
+  }, [isAuthLoading, user]);
+
+  useEffect(() => {
+    setCurrentUser(user);
+  }, [user]);
+
+  // Resume the account's active session, or start one
+  // Refetched now and then to notice a session the server ended for inactivity
+  const { data: activeSession, isFetched: isActiveSessionFetched } = useQuery<Session | null>({
+    queryKey: ['/api/sessions', 'active'],
+    enabled: !!user,
+    refetchInterval: 60 * 1000
+  });
+  const currentSession = activeSession ?? null;
+
+  // Check for auto-setup
+  useEffect(() => {
+    const hasSeenSetup = localStorage.getItem('emotional_ai_setup_seen');
 
     // Show auto-setup dialog for new users
     if (!hasSeenSetup) {
@@ -40,65 +73,94 @@ export default function Home() {
     }
   }, []);
 
-  const createUserMutation = useMutation({
-    mutationFn: async (userData: { name: string; email?: string; age?: number; gender?: string }) => {
-      const response = await apiRequest('POST', '/api/users', userData);
-      return response.json();
-    },
-    onSuccess: (user: User) => {
-      setCurrentUser(user);
-      localStorage.setItem('emotional_ai_user', JSON.stringify(user));
-      createSession(user.id);
-    }
-  });
-
   const createSessionMutation = useMutation({
-    mutationFn: async (userId: string) => {
-      const response = await apiRequest('POST', '/api/sessions', { userId });
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/sessions');
       return response.json();
     },
     onSuccess: (session: Session) => {
-      setCurrentSession(session);
-      localStorage.setItem('emotional_ai_session', JSON.stringify(session));
+      queryClient.setQueryData(['/api/sessions', 'active'], session);
     }
   });
 
-  const createGuestUser = () => {
-    createUserMutation.mutate({
-      name: `ضيف_${Date.now()}`,
-      age: 25,
-      gender: 'unknown'
-    });
+  // Also covers the active session ending (idle timeout, another tab), and
+  // switching account, which reloads the session queries
+  useEffect(() => {
+    if (user && isActiveSessionFetched && !activeSession && !createSessionMutation.isPending) {
+      createSessionMutation.mutate();
+    }
+  }, [user, isActiveSessionFetched, activeSession]);
+
+  // A guest registers by claiming its own account, so the current session
+  // and its history carry over; otherwise a fresh account is created
+  const registerUser = async (userData: SignupData) => {
+    if (user?.isGuest) {
+      await claimGuestMutation.mutateAsync(userData);
+    } else {
+      await signupMutation.mutateAsync(userData);
+    }
   };
 
-  const createSession = (userId: string) => {
-    createSessionMutation.mutate(userId);
+  const loginUser = async (credentials: LoginData) => {
+    await loginMutation.mutateAsync(credentials);
   };
 
-  const registerUser = (userData: { name: string; email?: string }) => {
-    if (currentUser) {
-      // Update existing guest user with real info
-      createUserMutation.mutate({
-        ...userData,
-        age: currentUser.age || 25,
-        gender: currentUser.gender || 'unknown'
-      });
-    }
+  const logoutUser = async () => {
+    await logoutMutation.mutateAsync();
+    guestMutation.reset();
+  };
+
+  // A fresh guest account takes the place of the erased one
+  const deleteAccount = async (data: DeleteAccountData) => {
+    if (!currentUser) return;
+    await deleteAccountMutation.mutateAsync({ userId: currentUser.id, data });
+    guestMutation.reset();
   };
 
-  const updateEmotionData = (emotions: EmotionData, age?: number, gender?: string) => {
-    setCurrentEmotions(emotions);
-    
-    // Update user demographics if detected
-    if (currentUser && (age || gender)) {
-      const updatedUser = {
-        ...currentUser,
-        age: age || currentUser.age,
-        gender: gender || currentUser.gender
-      };
-      setCurrentUser(updatedUser);
-      localStorage.setItem('emotional_ai_user', JSON.stringify(updatedUser));
+  // The detection loop keeps the callback it started with, so it reads the
+  // current account through a ref
+  const userRef = useRef(user);
+  userRef.current = user;
+  const lastEstimateSyncRef = useRef(0);
+
+  const updateEmotionData = (
+    emotions: EmotionData,
+    age?: number,
+    gender?: string,
+    demographicConfidence?: DemographicConfidence,
+    confidence?: number
+  ) => {
+    // Components show the smoothed estimate rather than the raw frame
+    const smoothed = emotionBuffer.addEmotion(emotions, age, gender, confidence);
+    setCurrentEmotions(smoothed.emotions);
+    setDominantEmotion(smoothed.dominantEmotion);
+    setCurrentConfidence(confidence ?? null);
+
+    // Send the camera's demographic estimates to the profile. Fields the user
+    // filled in themselves are skipped here and protected by the server too.
+    const account = userRef.current;
+    const now = Date.now();
+    if (!account || !demographicConfidence || now - lastEstimateSyncRef.current < ESTIMATE_SYNC_INTERVAL_MS) {
+      return;
+    }
+
+    const update: UserProfileUpdate = {};
+    if (age && account.ageSource !== 'self_reported') {
+      update.age = { value: age, source: 'model_estimated', confidence: demographicConfidence.age };
     }
+    if ((gender === 'male' || gender === 'female') && account.genderSource !== 'self_reported') {
+      update.gender = { value: gender, source: 'model_estimated', confidence: demographicConfidence.gender };
+    }
+    if (update.age || update.gender) {
+      lastEstimateSyncRef.current = now;
+      updateProfileMutation.mutate({ userId: account.id, update });
+    }
+  };
+
+  // On phones the panel covers the chat, so it closes to show the messages
+  const jumpToTimeFromMobilePanel = (time: Date) => {
+    setShowMobilePanel(false);
+    setChatJumpTime(time);
   };
 
   if (!currentUser || !currentSession) {
@@ -129,9 +191,14 @@ export default function Home() {
           user={currentUser}
           session={currentSession}
           currentEmotions={currentEmotions}
+          currentConfidence={currentConfidence}
           onRegisterUser={registerUser}
+          onLogin={loginUser}
+          onLogout={logoutUser}
+          onDeleteAccount={deleteAccount}
           onEmotionUpdate={updateEmotionData}
           emotionBuffer={emotionBuffer}
+          jumpToTime={chatJumpTime}
         />
       </div>
 
@@ -142,6 +209,7 @@ export default function Home() {
           session={currentSession}
           currentEmotions={currentEmotions}
           onEmotionUpdate={updateEmotionData}
+          onJumpToTime={setChatJumpTime}
         />
       </div>
 
@@ -169,6 +237,7 @@ export default function Home() {
               session={currentSession}
               currentEmotions={currentEmotions}
               onEmotionUpdate={updateEmotionData}
+              onJumpToTime={jumpToTimeFromMobilePanel}
               isMobile={true}
             />
           </div>
@@ -178,6 +247,7 @@ export default function Home() {
       {/* Smart Notifications */}
       <SmartNotifications 
         currentEmotions={currentEmotions}
+        dominantEmotion={dominantEmotion}
         sessionDuration={Math.floor((Date.now() - sessionStartTime) / 1000)}
       />
 
@@ -0,0 +1,76 @@
+import {
+  detectFaceEmotions,
+  drawFaceOverlays,
+  loadFaceApiModels,
+  setupWorkerEnvironment
+} from '@/lib/faceApi';
+import { createFaceTracker } from '@/lib/faceTracker';
+import type { FaceWorkerRequest, FaceWorkerResponse } from '@/lib/faceDetectionMessages';
+
+// Face detection off the main thread, so inference does not block typing.
+// The page sends one frame at a time and waits for its result.
+
+setupWorkerEnvironment();
+
+const tracker = createFaceTracker();
+let frameCanvas: OffscreenCanvas | null = null;
+let overlayCanvas: OffscreenCanvas | null = null;
+
+function reply(message: FaceWorkerResponse, transfer: Transferable[] = []) {
+  self.postMessage(message, { transfer });
+}
+
+// Canvases are reused across frames and only resized when the camera changes
+function sizedCanvas(canvas: OffscreenCanvas | null, width: number, height: number): OffscreenCanvas {
+  if (!canvas) return new OffscreenCanvas(width, height);
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return canvas;
+}
+
+async function detect(frame: ImageBitmap, subjectId: number | null, generation: number) {
+  const started = performance.now();
+  frameCanvas = sizedCanvas(frameCanvas, frame.width, frame.height);
+  frameCanvas.getContext('2d')!.drawImage(frame, 0, 0);
+  frame.close();
+
+  const detected = await detectFaceEmotions(frameCanvas);
+  const trackIds = tracker.update(detected.map(face => face.descriptor), Date.now(), subjectId);
+
+  overlayCanvas = sizedCanvas(overlayCanvas, frameCanvas.width, frameCanvas.height);
+  drawFaceOverlays(overlayCanvas, detected.map((face, i) => ({
+    face,
+    label: `شخص ${trackIds[i]}`,
+    highlighted: trackIds[i] === subjectId
+  })));
+  const overlay = overlayCanvas.transferToImageBitmap();
+
+  const faces = detected.map(({ descriptor, landmarks, ...face }, i) => ({ ...face, trackId: trackIds[i] }));
+  reply({ type: 'result', faces, overlay, inferenceMs: performance.now() - started, generation }, [overlay]);
+}
+
+self.onmessage = async (event: MessageEvent<FaceWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === 'load') {
+    try {
+      await loadFaceApiModels();
+      reply({ type: 'loaded' });
+    } catch (error) {
+      reply({ type: 'load-error', message: error instanceof Error ? error.message : String(error) });
+    }
+    return;
+  }
+
+  try {
+    await detect(request.frame, request.subjectId, request.generation);
+  } catch (error) {
+    request.frame.close();
+    reply({
+      type: 'detect-error',
+      message: error instanceof Error ? error.message : String(error),
+      generation: request.generation
+    });
+  }
+};
@@ -0,0 +1,39 @@
+CREATE TABLE "chat_messages" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar,
+	"is_user" boolean NOT NULL,
+	"content" text NOT NULL,
+	"emotion_context" jsonb,
+	"timestamp" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "emotion_analyses" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"session_id" varchar,
+	"timestamp" timestamp DEFAULT now(),
+	"emotions" jsonb NOT NULL,
+	"age" integer,
+	"gender" text,
+	"confidence" integer
+);
+--> statement-breakpoint
+CREATE TABLE "sessions" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" varchar,
+	"start_time" timestamp DEFAULT now(),
+	"end_time" timestamp,
+	"is_active" boolean DEFAULT true
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"email" text,
+	"age" integer,
+	"gender" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "chat_messages" ADD CONSTRAINT "chat_messages_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "emotion_analyses" ADD CONSTRAINT "emotion_analyses_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "chat_messages" ADD COLUMN "provider" text;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "sessions" ADD COLUMN "pinned_provider_id" text;--> statement-breakpoint
+ALTER TABLE "sessions" ADD COLUMN "allow_provider_fallback" boolean DEFAULT true;
\ No newline at end of file
@@ -0,0 +1,10 @@
+CREATE TABLE "provider_credentials" (
+	"provider_id" varchar PRIMARY KEY NOT NULL,
+	"ciphertext" text NOT NULL,
+	"iv" text NOT NULL,
+	"auth_tag" text NOT NULL,
+	"key_suffix" text NOT NULL,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	"last_validated_at" timestamp
+);
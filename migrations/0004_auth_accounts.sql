@@ -0,0 +1,12 @@
+CREATE TABLE "user_sessions" (
+	"sid" varchar PRIMARY KEY NOT NULL,
+	"sess" json NOT NULL,
+	"expire" timestamp (6) NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "password_hash" text;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "is_guest" boolean DEFAULT false;--> statement-breakpoint
+CREATE INDEX "IDX_user_sessions_expire" ON "user_sessions" USING btree ("expire");--> statement-breakpoint
+CREATE UNIQUE INDEX "users_name_unique" ON "users" USING btree ("name");--> statement-breakpoint
+-- Accounts created before sign-up existed have no password; treat them as guests
+UPDATE "users" SET "is_guest" = true WHERE "password_hash" IS NULL;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "users" ADD COLUMN "age_source" text DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "age_confidence" integer;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "gender_source" text DEFAULT 'default' NOT NULL;--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "gender_confidence" integer;
\ No newline at end of file
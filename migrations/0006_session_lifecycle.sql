@@ -0,0 +1,9 @@
+ALTER TABLE "sessions" ADD COLUMN "last_activity_at" timestamp DEFAULT now();--> statement-breakpoint
+CREATE INDEX "sessions_user_start_idx" ON "sessions" USING btree ("user_id","start_time");--> statement-breakpoint
+CREATE INDEX "sessions_active_activity_idx" ON "sessions" USING btree ("is_active","last_activity_at");--> statement-breakpoint
+-- Existing sessions were last active at their latest message or emotion sample
+UPDATE "sessions" SET "last_activity_at" = GREATEST(
+  COALESCE("end_time", "start_time"),
+  (SELECT max("timestamp") FROM "chat_messages" WHERE "chat_messages"."session_id" = "sessions"."id"),
+  (SELECT max("timestamp") FROM "emotion_analyses" WHERE "emotion_analyses"."session_id" = "sessions"."id")
+);
@@ -0,0 +1,44 @@
+CREATE TABLE "emotion_rollups" (
+	"session_id" varchar NOT NULL,
+	"bucket_seconds" integer NOT NULL,
+	"bucket_start" timestamp NOT NULL,
+	"sample_count" integer NOT NULL,
+	"emotion_sums" jsonb NOT NULL,
+	"emotion_maxima" jsonb NOT NULL,
+	"confidence_sum" real DEFAULT 0 NOT NULL,
+	"confidence_count" integer DEFAULT 0 NOT NULL,
+	CONSTRAINT "emotion_rollups_session_id_bucket_seconds_bucket_start_pk" PRIMARY KEY("session_id","bucket_seconds","bucket_start")
+);
+--> statement-breakpoint
+ALTER TABLE "emotion_rollups" ADD CONSTRAINT "emotion_rollups_session_id_sessions_id_fk" FOREIGN KEY ("session_id") REFERENCES "public"."sessions"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "emotion_rollups_bucket_idx" ON "emotion_rollups" USING btree ("bucket_seconds","bucket_start");--> statement-breakpoint
+CREATE INDEX "emotion_analyses_session_time_idx" ON "emotion_analyses" USING btree ("session_id","timestamp");--> statement-breakpoint
+CREATE INDEX "emotion_analyses_time_idx" ON "emotion_analyses" USING btree ("timestamp");--> statement-breakpoint
+-- Roll up the samples stored so far for the default tiers (EMOTION_ROLLUPS="1s:30d,1m")
+WITH "tiers"("bucket_seconds") AS (VALUES (1), (60)),
+"samples" AS (
+  SELECT a."id", a."session_id", a."emotions", a."confidence", t."bucket_seconds",
+    date_bin(make_interval(secs => t."bucket_seconds"), a."timestamp", TIMESTAMP '1970-01-01') AS "bucket_start"
+  FROM "emotion_analyses" a CROSS JOIN "tiers" t
+  WHERE a."session_id" IS NOT NULL AND a."timestamp" IS NOT NULL
+),
+"per_emotion" AS (
+  SELECT s."session_id", s."bucket_seconds", s."bucket_start", e."key",
+    sum(e."value"::float8) AS "total", max(e."value"::float8) AS "maximum"
+  FROM "samples" s CROSS JOIN jsonb_each_text(s."emotions") e
+  GROUP BY 1, 2, 3, 4
+),
+"per_bucket" AS (
+  SELECT "session_id", "bucket_seconds", "bucket_start", count(*) AS "sample_count",
+    coalesce(sum("confidence"), 0) AS "confidence_sum", count("confidence") AS "confidence_count"
+  FROM "samples"
+  GROUP BY 1, 2, 3
+)
+INSERT INTO "emotion_rollups" ("session_id", "bucket_seconds", "bucket_start", "sample_count",
+  "emotion_sums", "emotion_maxima", "confidence_sum", "confidence_count")
+SELECT b."session_id", b."bucket_seconds", b."bucket_start", b."sample_count",
+  jsonb_object_agg(p."key", p."total"), jsonb_object_agg(p."key", p."maximum"),
+  b."confidence_sum", b."confidence_count"
+FROM "per_bucket" b
+JOIN "per_emotion" p USING ("session_id", "bucket_seconds", "bucket_start")
+GROUP BY b."session_id", b."bucket_seconds", b."bucket_start", b."sample_count", b."confidence_sum", b."confidence_count";
@@ -0,0 +1,5 @@
+ALTER TABLE "emotion_rollups" ADD COLUMN "weighted_emotion_sums" jsonb DEFAULT '{}'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "emotion_rollups" ADD COLUMN "weight_sum" real DEFAULT 0 NOT NULL;--> statement-breakpoint
+-- Samples stored so far carry the client's placeholder confidence, so existing
+-- buckets weigh them all the same
+UPDATE "emotion_rollups" SET "weighted_emotion_sums" = "emotion_sums", "weight_sum" = "sample_count";
@@ -0,0 +1 @@
+ALTER TABLE "emotion_analyses" ADD COLUMN "subject_present" boolean DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,9 @@
+CREATE TABLE "data_deletion_audits" (
+	"id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"deleted_at" timestamp DEFAULT now() NOT NULL,
+	"was_guest" boolean NOT NULL,
+	"session_count" integer NOT NULL,
+	"emotion_analysis_count" integer NOT NULL,
+	"emotion_rollup_count" integer NOT NULL,
+	"chat_message_count" integer NOT NULL
+);
@@ -0,0 +1,22 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+
+function digest(value: string): Buffer {
+  return createHash("sha256").update(value).digest();
+}
+
+// Guards operator-only endpoints with the shared ADMIN_TOKEN, sent in the
+// X-Admin-Token header. The endpoints stay disabled while no token is set.
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const expected = process.env.ADMIN_TOKEN?.trim();
+  if (!expected) {
+    return res.status(503).json({ error: "إدارة المفاتيح غير مفعلة - عيّن ADMIN_TOKEN على الخادم" });
+  }
+
+  const provided = req.get("X-Admin-Token");
+  if (!provided || !timingSafeEqual(digest(provided), digest(expected))) {
+    return res.status(401).json({ error: "رمز المشرف غير صحيح" });
+  }
+
+  next();
+}
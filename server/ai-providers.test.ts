@@ -0,0 +1,233 @@
+import { after, afterEach, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { aiProviderManager } from "./ai-providers";
+import { ProviderError } from "./provider-errors";
+import type { EmotionData } from "@shared/schema";
+
+const emotions: EmotionData = {
+  happy: 10, sad: 70, angry: 0, surprised: 0, fearful: 5, disgusted: 0, neutral: 15
+};
+
+interface RecordedRequest {
+  method?: string;
+  url?: string;
+  headers: IncomingMessage["headers"];
+  body: any;
+}
+
+// Local stand-in for an OpenAI-style API; each test sets how it answers
+let respond: (res: ServerResponse) => void = () => {};
+let lastRequest: RecordedRequest | null = null;
+const server = createServer(async (req, res) => {
+  let raw = "";
+  for await (const chunk of req) raw += chunk;
+  lastRequest = { method: req.method, url: req.url, headers: req.headers, body: raw ? JSON.parse(raw) : null };
+  respond(res);
+});
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function completion(content: string) {
+  return {
+    id: "chatcmpl-test",
+    object: "chat.completion",
+    created: 0,
+    model: "test-model",
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+  };
+}
+
+// A port nothing listens on, so connecting to it is refused
+async function closedPort(): Promise<number> {
+  const probe = createServer();
+  await new Promise<void>(resolve => probe.listen(0, "127.0.0.1", resolve));
+  const { port } = probe.address() as AddressInfo;
+  await new Promise(resolve => probe.close(resolve));
+  return port;
+}
+
+// The environment variables each provider reads its settings from
+const providers = [
+  {
+    id: "openai",
+    model: "gpt-test",
+    baseURLVar: "OPENAI_BASE_URL",
+    timeoutVar: "OPENAI_TIMEOUT_MS",
+    env: {
+      OPENAI_API_KEY: "test-key",
+      OPENAI_MODEL: "gpt-test",
+      OPENAI_TEMPERATURE: "0.3",
+      OPENAI_MAX_TOKENS: "42",
+    },
+  },
+  {
+    id: "openai-compatible",
+    model: "llama-test",
+    baseURLVar: "LOCAL_LLM_BASE_URL",
+    timeoutVar: "LOCAL_LLM_TIMEOUT_MS",
+    env: {
+      LOCAL_LLM_API_KEY: "test-key",
+      LOCAL_LLM_MODEL: "llama-test",
+      LOCAL_LLM_TEMPERATURE: "0.3",
+      LOCAL_LLM_MAX_TOKENS: "42",
+    },
+  },
+];
+
+let baseURL = "";
+const originalEnv = { ...process.env };
+
+before(async () => {
+  // Providers log every failure, which the failure tests provoke on purpose
+  mock.method(console, "error", () => {});
+  mock.method(console, "log", () => {});
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+after(async () => {
+  mock.restoreAll();
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+afterEach(() => {
+  process.env = { ...originalEnv };
+  respond = () => {};
+  lastRequest = null;
+});
+
+for (const { id, model, baseURLVar, timeoutVar, env } of providers) {
+  describe(`${id} provider`, () => {
+    const provider = () => aiProviderManager.getProvider(id)!;
+    const configure = (overrides: Record<string, string> = {}) => {
+      Object.assign(process.env, env, { [baseURLVar]: baseURL }, overrides);
+    };
+
+    const failureOf = async (): Promise<ProviderError> => {
+      try {
+        await provider().generateResponse("مرحبا", emotions);
+      } catch (error) {
+        assert.ok(error instanceof ProviderError, `expected a ProviderError, got ${error}`);
+        return error;
+      }
+      assert.fail("expected the request to fail");
+    };
+
+    it("sends the configured model, temperature and token limit", async () => {
+      configure();
+      respond = res => sendJson(res, 200, completion("أنا هنا من أجلك"));
+
+      const reply = await provider().generateResponse("مرحبا", emotions);
+
+      assert.equal(reply, "أنا هنا من أجلك");
+      assert.equal(lastRequest?.method, "POST");
+      assert.equal(lastRequest?.url, "/v1/chat/completions");
+      assert.equal(lastRequest?.headers.authorization, "Bearer test-key");
+      assert.equal(lastRequest?.body.model, model);
+      assert.equal(lastRequest?.body.temperature, 0.3);
+      assert.equal(lastRequest?.body.max_tokens, 42);
+      assert.equal(lastRequest?.body.messages.at(-1).content, "مرحبا");
+    });
+
+    for (const [status, kind] of [[401, "auth"], [429, "rate_limit"], [500, "unavailable"], [503, "unavailable"]] as const) {
+      it(`maps HTTP ${status} to ${kind}`, async () => {
+        configure();
+        respond = res => sendJson(res, status, { error: { message: "mock failure", type: "test" } });
+
+        const error = await failureOf();
+        assert.equal(error.kind, kind);
+        assert.equal(error.status, status);
+      });
+    }
+
+    it("maps a request that outlives its timeout to a retryable timeout", async () => {
+      configure({ [timeoutVar]: "100" });
+      respond = () => {}; // never answers
+
+      const error = await failureOf();
+      assert.equal(error.kind, "timeout");
+      assert.ok(error.retryable);
+    });
+
+    it("maps a refused connection to retryable unavailability", async () => {
+      configure({ [baseURLVar]: `http://127.0.0.1:${await closedPort()}/v1` });
+
+      const error = await failureOf();
+      assert.equal(error.kind, "unavailable");
+      assert.ok(error.retryable);
+    });
+  });
+}
+
+describe("huggingface provider", () => {
+  const provider = () => aiProviderManager.getProvider("huggingface")!;
+
+  // The inference endpoint is fixed, so fetch itself answers for it
+  const answer = (status: number, body: unknown) => {
+    mock.method(globalThis, "fetch", async () => new Response(JSON.stringify(body), {
+      status,
+      headers: { "Content-Type": "application/json" },
+    }));
+  };
+
+  afterEach(() => {
+    (globalThis.fetch as any).mock?.restore();
+  });
+
+  const failureOf = async (): Promise<ProviderError> => {
+    process.env.HUGGINGFACE_API_KEY = "test-key";
+    try {
+      await provider().generateResponse("مرحبا", emotions);
+    } catch (error) {
+      assert.ok(error instanceof ProviderError, `expected a ProviderError, got ${error}`);
+      return error;
+    }
+    assert.fail("expected the request to fail");
+  };
+
+  const cases = [
+    ["a model that is still loading", 503, { error: "Model microsoft/DialoGPT-medium is currently loading", estimated_time: 20 }, "unavailable"],
+    ["an exhausted quota", 400, { error: "Rate limit reached. You reached free usage limit (reset hourly)." }, "rate_limit"],
+    ["a rejected token", 400, { error: "Authorization header is correct, but the token seems invalid" }, "auth"],
+    ["an error on a 200", 200, { error: "Unexpected model output" }, "unknown"],
+  ] as const;
+
+  for (const [label, status, body, kind] of cases) {
+    it(`maps ${label} to ${kind}`, async () => {
+      answer(status, body);
+
+      const error = await failureOf();
+      assert.equal(error.kind, kind);
+      assert.equal(error.message, body.error);
+    });
+  }
+
+  it("falls back on the status when the error body is not JSON", async () => {
+    mock.method(globalThis, "fetch", async () => new Response("<html>Bad Gateway</html>", { status: 502 }));
+
+    const error = await failureOf();
+    assert.equal(error.kind, "unavailable");
+    assert.equal(error.status, 502);
+  });
+
+  it("refuses a manual test while the circuit is open", async () => {
+    process.env.HUGGINGFACE_API_KEY = "test-key";
+    answer(503, { error: "Service unavailable" });
+    const test = () => aiProviderManager.testProvider("huggingface", "مرحبا", emotions);
+
+    // The default threshold of three consecutive failures opens the circuit
+    for (let i = 0; i < 3; i++) {
+      await assert.rejects(test(), { kind: "unavailable", status: 503 });
+    }
+    const calls = (globalThis.fetch as any).mock.callCount();
+
+    await assert.rejects(test(), { kind: "unavailable", status: undefined });
+    assert.equal((globalThis.fetch as any).mock.callCount(), calls);
+  });
+});
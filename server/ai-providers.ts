@@ -1,6 +1,17 @@
 // Google Gemini support - Will be enhanced when @google/genai package is available
 // import { GoogleGenerativeAI } from '@google/genai';
+import OpenAI from 'openai';
 import type { EmotionData } from '@shared/schema';
+import {
+  EMPTY_CONVERSATION,
+  formatConversationForPrompt,
+  getDominantEmotionName,
+  type ConversationContext
+} from './conversation-memory';
+import { ProviderError, providerErrorKindFromStatus } from './provider-errors';
+import { getProviderApiKey } from './credentials';
+import { CircuitBreaker, type CircuitSnapshot } from './circuit-breaker';
+import { ProviderTelemetry, type ProviderTelemetrySnapshot } from './provider-telemetry';
 
 // Helper function to create default emotion context
 function createDefaultEmotionContext(): EmotionData {
@@ -17,44 +28,340 @@ function createDefaultEmotionContext(): EmotionData {
 
 // AI Provider Interface
 export interface AIProvider {
+  // Stable identifier used by the API, session pinning and the client
+  id: string;
   name: string;
   isConfigured(): boolean;
-  generateResponse(userMessage: string, emotionContext: EmotionData): Promise<string>;
+  generateResponse(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation?: ConversationContext
+  ): Promise<string>;
+  // Optional token streaming; providers without it are sent as a single chunk
+  streamResponse?(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext,
+    onChunk: (text: string) => void
+  ): Promise<string>;
+  // Environment variable holding the key, for providers whose key can also
+  // be managed at runtime through the credentials API
+  apiKeyEnvVar?: string;
+  // Checks a candidate key against the provider; throws a ProviderError when rejected
+  validateApiKey?(apiKey: string): Promise<void>;
+}
+
+export interface StreamHandlers {
+  onChunk(text: string): void;
+  // Called when a provider fails after it already streamed part of a reply
+  onRestart(): void;
+}
+
+// Yields the `data:` payload of each event in a text/event-stream body
+async function* readServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      let boundary: number;
+      while ((boundary = buffer.search(/\r?\n\r?\n/)) !== -1) {
+        const event = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).trimStart())
+          .join('\n');
+        if (data) yield data;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// Prepends earlier turns (and the summary of older ones) to a single-string prompt
+function withConversation(prompt: string, conversation: ConversationContext): string {
+  const history = formatConversationForPrompt(conversation);
+  return history ? `${history}\n\n${prompt}` : prompt;
+}
+
+// Numeric settings from the environment, falling back when unset or invalid
+function readNumberSetting(name: string, fallback: number): number {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) ? value : fallback;
+}
+
+// fetch() bounded by a deadline, with aborts and network failures reported as
+// ProviderErrors so the manager can retry them. The deadline covers reading the
+// body as well, including streamed ones.
+async function fetchWithTimeout(
+  provider: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number
+): Promise<Response> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(timeoutMs) });
+  } catch (error) {
+    throw toFetchError(provider, error, timeoutMs);
+  }
+}
+
+function toFetchError(provider: string, error: unknown, timeoutMs: number): ProviderError {
+  if (error instanceof ProviderError) return error;
+  if (error instanceof Error && (error.name === 'TimeoutError' || error.name === 'AbortError')) {
+    return new ProviderError(provider, 'timeout', `لم يستجب ${provider} خلال ${timeoutMs}ms`, undefined, { cause: error });
+  }
+  return new ProviderError(provider, 'unavailable', 'تعذر الاتصال بالمزود', undefined, { cause: error });
+}
+
+// One `data:` payload of a provider's event stream. A payload that is not
+// JSON means the stream broke off or got mangled on the way.
+function parseStreamEvent(provider: string, data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    throw new ProviderError(provider, 'unavailable', `رد غير صالح من ${provider}`, undefined, { cause: error });
+  }
+}
+
+// Non-2xx responses from fetch-based providers
+function httpError(provider: string, status: number): ProviderError {
+  return new ProviderError(
+    provider,
+    providerErrorKindFromStatus(status),
+    `فشل الاتصال بـ ${provider} - كود الخطأ: ${status}`,
+    status
+  );
+}
+
+// Hugging Face's inference API explains failures in an `error` field, on a
+// 200 at times, and answers 503 or 400 for a model that is still loading or a
+// quota that ran out. The text decides the kind where the status cannot.
+function huggingFaceError(provider: string, status: number, body: any): ProviderError {
+  const detail: string = typeof body?.error === 'string' ? body.error : '';
+  let kind = status >= 400 ? providerErrorKindFromStatus(status) : 'unknown';
+  if (/currently loading|estimated_time/i.test(detail) || typeof body?.estimated_time === 'number') {
+    kind = 'unavailable';
+  } else if (/rate limit|too many requests|quota/i.test(detail)) {
+    kind = 'rate_limit';
+  } else if (/token|authoriz|credentials/i.test(detail)) {
+    kind = 'auth';
+  }
+  const message = detail || `فشل الاتصال بـ ${provider} - كود الخطأ: ${status}`;
+  return new ProviderError(provider, kind, message, status >= 400 ? status : undefined);
+}
+
+// Turns a non-2xx response from a key check into a ProviderError. A key that
+// cannot be parsed is reported as 400 by some providers, so that counts as auth.
+async function assertKeyAccepted(provider: string, request: () => Promise<Response>): Promise<void> {
+  let response: Response;
+  try {
+    response = await request();
+  } catch (error) {
+    throw new ProviderError(provider, 'unavailable', 'تعذر الاتصال بالمزود', undefined, { cause: error });
+  }
+  if (!response.ok) {
+    const kind = response.status === 400 ? 'auth' : providerErrorKindFromStatus(response.status);
+    throw new ProviderError(provider, kind, `رفض ${provider} المفتاح - كود الخطأ: ${response.status}`, response.status);
+  }
+}
+
+// Maps OpenAI SDK errors (also raised by OpenAI-compatible servers) to ProviderError
+function toProviderError(provider: string, error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error;
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new ProviderError(provider, 'timeout', 'انتهت مهلة الاتصال بالمزود', undefined, { cause: error });
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new ProviderError(provider, 'unavailable', 'تعذر الاتصال بالمزود', undefined, { cause: error });
+  }
+  if (error instanceof OpenAI.APIError && error.status !== undefined) {
+    return new ProviderError(
+      provider,
+      providerErrorKindFromStatus(error.status),
+      `فشل الاتصال بـ ${provider} - كود الخطأ: ${error.status}`,
+      error.status,
+      { cause: error }
+    );
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ProviderError(provider, 'unknown', message, undefined, { cause: error });
+}
+
+interface OpenAIChatSettings {
+  apiKey: string | undefined;
+  baseURL?: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
 }
 
 // OpenAI Provider (Premium)
 class OpenAIProvider implements AIProvider {
+  id = "openai";
   name = "OpenAI GPT-4o";
+  apiKeyEnvVar = 'OPENAI_API_KEY';
+  private client: OpenAI | null = null;
+  private clientKey = '';
 
   isConfigured(): boolean {
-    const apiKey = process.env.OPENAI_API_KEY;
+    const apiKey = this.getSettings().apiKey;
     return !!apiKey && apiKey.trim().length > 0;
   }
 
-  async generateResponse(userMessage: string, emotionContext: EmotionData): Promise<string> {
+  // Read on every call so configuration changes apply without a restart
+  protected getSettings(): OpenAIChatSettings {
+    return {
+      apiKey: getProviderApiKey(this.id, 'OPENAI_API_KEY'),
+      baseURL: process.env.OPENAI_BASE_URL || undefined,
+      model: process.env.OPENAI_MODEL || 'gpt-4o',
+      temperature: readNumberSetting('OPENAI_TEMPERATURE', 0.7),
+      maxTokens: readNumberSetting('OPENAI_MAX_TOKENS', 200),
+      timeoutMs: readNumberSetting('OPENAI_TIMEOUT_MS', 30000)
+    };
+  }
+
+  protected createClient(settings: OpenAIChatSettings): OpenAI {
+    return new OpenAI({
+      apiKey: settings.apiKey,
+      baseURL: settings.baseURL,
+      timeout: settings.timeoutMs,
+      maxRetries: 0 // the provider manager decides about retries and fallbacks
+    });
+  }
+
+  async validateApiKey(apiKey: string): Promise<void> {
     try {
-      if (!emotionContext || typeof emotionContext !== 'object') {
-        emotionContext = createDefaultEmotionContext();
+      const client = this.createClient({ ...this.getSettings(), apiKey });
+      await client.models.list();
+    } catch (error) {
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  private getClient(settings: OpenAIChatSettings): OpenAI {
+    const clientKey = JSON.stringify([settings.apiKey, settings.baseURL, settings.timeoutMs]);
+    if (!this.client || this.clientKey !== clientKey) {
+      this.client = this.createClient(settings);
+      this.clientKey = clientKey;
+    }
+    return this.client;
+  }
+
+  async generateResponse(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext = EMPTY_CONVERSATION
+  ): Promise<string> {
+    try {
+      const settings = this.getSettings();
+      const response = await this.getClient(settings).chat.completions.create({
+        model: settings.model,
+        messages: this.buildMessages(userMessage, emotionContext, conversation),
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature
+      });
+
+      const content = response.choices[0]?.message?.content;
+      if (!content) {
+        throw new ProviderError(this.name, 'unknown', `No response received from ${this.name}`);
       }
-      
-      const emotions = Object.entries(emotionContext);
-      if (emotions.length === 0) {
-        emotions.push(['neutral', 100]);
+      return content;
+    } catch (error) {
+      console.error(`${this.name} error:`, error);
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  async streamResponse(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext,
+    onChunk: (text: string) => void
+  ): Promise<string> {
+    try {
+      const settings = this.getSettings();
+      const stream = await this.getClient(settings).chat.completions.create({
+        model: settings.model,
+        messages: this.buildMessages(userMessage, emotionContext, conversation),
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        stream: true
+      });
+
+      let fullText = '';
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content;
+        if (text) {
+          fullText += text;
+          onChunk(text);
+        }
       }
-      
-      const dominantEmotion = emotions.reduce((a, b) => a[1] > b[1] ? a : b);
-      const emotionName = dominantEmotion[0];
-      const emotionIntensity = dominantEmotion[1];
-      const emotionPrompt = this.getEmotionPrompt(emotionName, emotionIntensity);
 
-      // This would require OpenAI SDK implementation
-      return `استجابة ذكية من OpenAI GPT-4: ${userMessage}`;
+      if (!fullText) {
+        throw new ProviderError(this.name, 'unknown', `No response received from ${this.name}`);
+      }
+      return fullText;
     } catch (error) {
-      console.error("OpenAI error:", error);
-      throw error;
+      console.error(`${this.name} streaming error:`, error);
+      throw toProviderError(this.name, error);
     }
   }
 
+  private buildMessages(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext
+  ): OpenAI.Chat.ChatCompletionMessageParam[] {
+    if (!emotionContext || typeof emotionContext !== 'object') {
+      emotionContext = createDefaultEmotionContext();
+    }
+    
+    const emotions = Object.entries(emotionContext);
+    if (emotions.length === 0) {
+      emotions.push(['neutral', 100]);
+    }
+    
+    const dominantEmotion = emotions.reduce((a, b) => a[1] > b[1] ? a : b);
+    const emotionName = dominantEmotion[0];
+    const emotionIntensity = dominantEmotion[1];
+    const emotionPrompt = this.getEmotionPrompt(emotionName, emotionIntensity);
+
+    const systemPrompt = `أنت مساعد ذكي عاطفي يتحدث العربية ويتفهم مشاعر المستخدمين. ${emotionPrompt}
+
+قواعد مهمة:
+- اكتب بالعربية فقط
+- كن متعاطفاً ومتفهماً
+- قدم نصائح عملية ومفيدة
+- اجعل ردودك قصيرة ومركزة (100-150 كلمة)
+- استخدم الإيموجي بشكل مناسب
+- تجنب النصائح الطبية المباشرة`;
+
+    const history: OpenAI.Chat.ChatCompletionMessageParam[] = conversation.turns.map(turn => {
+      if (turn.role === 'assistant') {
+        return { role: 'assistant', content: turn.content };
+      }
+      const mood = getDominantEmotionName(turn.emotionContext);
+      return { role: 'user', content: mood ? `[يشعر بـ ${mood}] ${turn.content}` : turn.content };
+    });
+
+    return [
+      { role: 'system', content: systemPrompt },
+      ...(conversation.summary ? [{ role: 'system' as const, content: conversation.summary }] : []),
+      ...history,
+      { role: 'user', content: userMessage }
+    ];
+  }
+
   private getEmotionPrompt(emotion: string, intensity: number): string {
     const highIntensity = intensity > 60;
     
@@ -71,83 +378,241 @@ class OpenAIProvider implements AIProvider {
         return highIntensity
           ? "المستخدم غاضب جداً. ساعده على التهدئة وإدارة غضبه بطريقة صحية."
           : "المستخدم يشعر بانزعاج. ساعده على فهم مشاعره والتعامل معها.";
+      case 'fearful':
+        return "المستخدم يشعر بالخوف أو القلق. طمئنه وقدم نصائح للتغلب على المخاوف.";
+      case 'surprised':
+        return "المستخدم متفاجئ. ساعده على معالجة المعلومات الجديدة أو الموقف.";
+      case 'disgusted':
+        return "المستخدم يشعر بالاشمئزاز أو عدم الرضا. ساعده على التعامل مع هذه المشاعر.";
       default:
         return "المستخدم في حالة محايدة. كن ودوداً ومفيداً في تفاعلك معه.";
     }
   }
 }
 
+// OpenAI-compatible Provider (on-prem: Ollama, llama.cpp, vLLM...)
+// Talks to any server exposing /v1/chat/completions, so conversations never
+// leave infrastructure we control.
+class OpenAICompatibleProvider extends OpenAIProvider {
+  id = "openai-compatible";
+  name = "نموذج محلي (متوافق مع OpenAI)";
+  apiKeyEnvVar = 'LOCAL_LLM_API_KEY';
+
+  isConfigured(): boolean {
+    const baseURL = this.getSettings().baseURL;
+    return !!baseURL && baseURL.trim().length > 0;
+  }
+
+  async validateApiKey(apiKey: string): Promise<void> {
+    // Without a base URL the key would be checked against api.openai.com
+    if (!this.isConfigured()) {
+      throw new ProviderError(this.name, 'not_configured', 'حدد LOCAL_LLM_BASE_URL قبل حفظ مفتاح الخادم المحلي');
+    }
+    await super.validateApiKey(apiKey);
+  }
+
+  protected getSettings(): OpenAIChatSettings {
+    return {
+      apiKey: getProviderApiKey(this.id, 'LOCAL_LLM_API_KEY'),
+      baseURL: process.env.LOCAL_LLM_BASE_URL || undefined,
+      model: process.env.LOCAL_LLM_MODEL || 'llama3.1',
+      temperature: readNumberSetting('LOCAL_LLM_TEMPERATURE', 0.7),
+      maxTokens: readNumberSetting('LOCAL_LLM_MAX_TOKENS', 300),
+      timeoutMs: readNumberSetting('LOCAL_LLM_TIMEOUT_MS', 60000)
+    };
+  }
+
+  protected createClient(settings: OpenAIChatSettings): OpenAI {
+    // LOCAL_LLM_AUTH_HEADER lets gateways that expect e.g. `X-API-Key`
+    // receive the raw key instead of an `Authorization: Bearer` header
+    const authHeader = process.env.LOCAL_LLM_AUTH_HEADER?.trim();
+    const useCustomHeader = !!settings.apiKey && !!authHeader && authHeader.toLowerCase() !== 'authorization';
+
+    return new OpenAI({
+      apiKey: useCustomHeader ? 'unused' : settings.apiKey || 'unused',
+      baseURL: settings.baseURL,
+      timeout: settings.timeoutMs,
+      maxRetries: 0,
+      defaultHeaders: useCustomHeader
+        ? { Authorization: null, [authHeader!]: settings.apiKey! }
+        : settings.apiKey ? undefined : { Authorization: null }
+    });
+  }
+}
+
 // Google Gemini Provider (FREE!) - Using REST API directly
 class GeminiProvider implements AIProvider {
+  id = "gemini";
   name = "Google Gemini (مجاني)";
+  apiKeyEnvVar = 'GOOGLE_API_KEY';
 
   isConfigured(): boolean {
-    const apiKey = process.env.GOOGLE_API_KEY;
+    const apiKey = this.getApiKey();
     console.log('🔍 Checking Google API Key:', apiKey ? 'Present' : 'Missing');
     return !!apiKey && apiKey.trim().length > 0;
   }
 
-  async generateResponse(userMessage: string, emotionContext: EmotionData): Promise<string> {
-    try {
-      if (!emotionContext || typeof emotionContext !== 'object') {
-        emotionContext = createDefaultEmotionContext();
-      }
-      
-      const emotions = Object.entries(emotionContext);
-      if (emotions.length === 0) {
-        emotions.push(['neutral', 100]);
-      }
-      
-      const dominantEmotion = emotions.reduce((a, b) => a[1] > b[1] ? a : b);
-      const emotionName = dominantEmotion[0];
-      const emotionArabic = this.getEmotionArabic(emotionName);
-      
-      const prompt = `أنت مساعد ذكي عاطفي يتحدث العربية. المستخدم يشعر بـ ${emotionArabic}. 
-      رسالته: "${userMessage}"
-      
-      قدم رداً متعاطفاً ومفيداً بالعربية (100-150 كلمة):`;
+  private getApiKey(): string | undefined {
+    return getProviderApiKey(this.id, 'GOOGLE_API_KEY');
+  }
+
+  private getTimeoutMs(): number {
+    return readNumberSetting('GEMINI_TIMEOUT_MS', 20000);
+  }
 
+  async validateApiKey(apiKey: string): Promise<void> {
+    await assertKeyAccepted(this.name, () => fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models?key=${encodeURIComponent(apiKey)}`,
+      { signal: AbortSignal.timeout(10000) }
+    ));
+  }
+
+  async generateResponse(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext = EMPTY_CONVERSATION
+  ): Promise<string> {
+    try {
       // Using Google Gemini REST API directly
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${process.env.GOOGLE_API_KEY}`,
+      const timeoutMs = this.getTimeoutMs();
+      const response = await fetchWithTimeout(
+        this.name,
+        `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent?key=${this.getApiKey()}`,
         {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({
-            contents: [{
-              parts: [{
-                text: prompt
-              }]
-            }],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 200,
-            }
-          })
-        }
+          body: JSON.stringify(this.buildRequestBody(userMessage, emotionContext, conversation))
+        },
+        timeoutMs
       );
 
       if (!response.ok) {
         const errorText = await response.text();
         console.log(`Gemini API Error ${response.status}:`, errorText);
-        throw new Error(`فشل الاتصال بـ Gemini - كود الخطأ: ${response.status}`);
+        throw httpError(this.name, response.status);
       }
 
-      const result = await response.json();
+      const result = await response.json().catch(error => {
+        throw toFetchError(this.name, error, timeoutMs);
+      });
       
-      if (result.candidates && result.candidates[0] && result.candidates[0].content) {
-        return result.candidates[0].content.parts[0].text;
-      } else {
-        throw new Error("No response received from Gemini");
+      const text: string | undefined = result.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (!text) {
+        throw new ProviderError(this.name, 'unknown', `No response received from ${this.name}`);
       }
+      return text;
     } catch (error) {
       console.error("Gemini error:", error);
-      throw error;
+      throw toProviderError(this.name, error);
+    }
+  }
+
+  async streamResponse(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext,
+    onChunk: (text: string) => void
+  ): Promise<string> {
+    try {
+      // alt=sse makes streamGenerateContent emit one `data:` event per partial candidate
+      const timeoutMs = this.getTimeoutMs();
+      const response = await fetchWithTimeout(
+        this.name,
+        `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:streamGenerateContent?alt=sse&key=${this.getApiKey()}`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(this.buildRequestBody(userMessage, emotionContext, conversation))
+        },
+        timeoutMs
+      );
+
+      if (!response.ok || !response.body) {
+        const errorText = await response.text();
+        console.log(`Gemini API Error ${response.status}:`, errorText);
+        throw httpError(this.name, response.status);
+      }
+
+      let fullText = '';
+      try {
+        for await (const data of readServerSentEvents(response.body)) {
+          const result = parseStreamEvent(this.name, data);
+          const text: string | undefined = result.candidates?.[0]?.content?.parts?.[0]?.text;
+          if (text) {
+            fullText += text;
+            onChunk(text);
+          }
+        }
+      } catch (error) {
+        throw toFetchError(this.name, error, timeoutMs);
+      }
+
+      if (!fullText) {
+        throw new ProviderError(this.name, 'unknown', `No response received from ${this.name}`);
+      }
+      return fullText;
+    } catch (error) {
+      console.error("Gemini streaming error:", error);
+      throw toProviderError(this.name, error);
     }
   }
 
+  private buildRequestBody(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext
+  ) {
+    if (!emotionContext || typeof emotionContext !== 'object') {
+      emotionContext = createDefaultEmotionContext();
+    }
+    
+    const emotions = Object.entries(emotionContext);
+    if (emotions.length === 0) {
+      emotions.push(['neutral', 100]);
+    }
+    
+    const dominantEmotion = emotions.reduce((a, b) => a[1] > b[1] ? a : b);
+    const emotionName = dominantEmotion[0];
+    const emotionArabic = this.getEmotionArabic(emotionName);
+    
+    const prompt = `أنت مساعد ذكي عاطفي يتحدث العربية. المستخدم يشعر بـ ${emotionArabic}. 
+    رسالته: "${userMessage}"
+    
+    قدم رداً متعاطفاً ومفيداً بالعربية (100-150 كلمة):`;
+
+    // Earlier turns go in as real chat turns so Gemini keeps the thread
+    const history = conversation.turns.map(turn => {
+      const mood = turn.role === 'user' ? getDominantEmotionName(turn.emotionContext) : null;
+      return {
+        role: turn.role === 'user' ? 'user' : 'model',
+        parts: [{ text: mood ? `[يشعر بـ ${mood}] ${turn.content}` : turn.content }]
+      };
+    });
+
+    return {
+      ...(conversation.summary && {
+        systemInstruction: { parts: [{ text: conversation.summary }] }
+      }),
+      contents: [
+        ...history,
+        {
+          role: 'user',
+          parts: [{
+            text: prompt
+          }]
+        }
+      ],
+      generationConfig: {
+        temperature: 0.7,
+        maxOutputTokens: 200,
+      }
+    };
+  }
+
   private getEmotionArabic(emotion: string): string {
     const emotionMap = {
       happy: "السعادة",
@@ -162,15 +627,27 @@ class GeminiProvider implements AIProvider {
   }
 }
 
+const FREE_GPT_ENDPOINT = "https://free-unoficial-gpt4o-mini-api-g70n.onrender.com/chat/";
+// The prompt travels in the query string; hosts commonly reject request lines
+// past 8 KB, and percent-encoded Arabic takes six bytes per letter
+const FREE_GPT_MAX_URL_LENGTH = 8000;
+
 // Free GPT Provider (No API key needed!)
 class FreeGPTProvider implements AIProvider {
+  id = "free-gpt";
   name = "Free GPT (مجاني تماماً)";
 
   isConfigured(): boolean {
-    return true; // Always available, no API key needed
+    // Public third-party endpoint: can be switched off for deployments that
+    // must not send participant conversations off-site
+    return process.env.DISABLE_PUBLIC_PROVIDERS !== 'true'; // No API key needed
   }
 
-  async generateResponse(userMessage: string, emotionContext: EmotionData): Promise<string> {
+  async generateResponse(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext = EMPTY_CONVERSATION
+  ): Promise<string> {
     try {
       if (!emotionContext || typeof emotionContext !== 'object') {
         emotionContext = createDefaultEmotionContext();
@@ -190,29 +667,35 @@ class FreeGPTProvider implements AIProvider {
       
       قدم رداً متعاطفاً ومفيداً بالعربية (100-150 كلمة):`;
 
-      // Using free GPT API that requires no authentication
-      const response = await fetch(
-        `https://free-unoficial-gpt4o-mini-api-g70n.onrender.com/chat/?query=${encodeURIComponent(prompt)}`,
+      // Using free GPT API that requires no authentication. The free onrender
+      // host can hang while it cold-starts, hence the short default timeout.
+      const timeoutMs = readNumberSetting('FREE_GPT_TIMEOUT_MS', 15000);
+      const response = await fetchWithTimeout(
+        this.name,
+        this.buildUrl(prompt, conversation),
         {
           method: "GET",
           headers: {
             "Accept": "application/json",
           }
-        }
+        },
+        timeoutMs
       );
 
       if (!response.ok) {
         const errorText = await response.text();
         console.log(`FreeGPT API Error ${response.status}:`, errorText);
-        throw new Error(`فشل الاتصال بـ FreeGPT - كود الخطأ: ${response.status}`);
+        throw httpError(this.name, response.status);
       }
 
-      const result = await response.json();
+      const result = await response.json().catch(error => {
+        throw toFetchError(this.name, error, timeoutMs);
+      });
       
       if (result.response) {
         return result.response;
       } else {
-        throw new Error("No response received");
+        throw new ProviderError(this.name, 'unknown', `No response received from ${this.name}`);
       }
     } catch (error) {
       console.error("Free GPT error:", error);
@@ -220,6 +703,19 @@ class FreeGPTProvider implements AIProvider {
     }
   }
 
+  // Earlier turns are dropped once they would push the URL past the limit
+  private buildUrl(prompt: string, conversation: ConversationContext): string {
+    const withHistory = `${FREE_GPT_ENDPOINT}?query=${encodeURIComponent(withConversation(prompt, conversation))}`;
+    if (withHistory.length <= FREE_GPT_MAX_URL_LENGTH) {
+      return withHistory;
+    }
+    const promptOnly = `${FREE_GPT_ENDPOINT}?query=${encodeURIComponent(prompt)}`;
+    if (promptOnly.length <= FREE_GPT_MAX_URL_LENGTH) {
+      return promptOnly;
+    }
+    throw new ProviderError(this.name, 'bad_request', 'الرسالة أطول مما يقبله هذا المزود');
+  }
+
   private getEmotionArabic(emotion: string): string {
     const emotionMap = {
       happy: "السعادة",
@@ -236,14 +732,31 @@ class FreeGPTProvider implements AIProvider {
 
 // Hugging Face Provider (Free with API key)
 class HuggingFaceProvider implements AIProvider {
+  id = "huggingface";
   name = "Hugging Face (مجاني)";
+  apiKeyEnvVar = 'HUGGINGFACE_API_KEY';
 
   isConfigured(): boolean {
-    const apiKey = process.env.HUGGINGFACE_API_KEY;
+    const apiKey = this.getApiKey();
     return !!apiKey && apiKey.trim().length > 0;
   }
 
-  async generateResponse(userMessage: string, emotionContext: EmotionData): Promise<string> {
+  private getApiKey(): string | undefined {
+    return getProviderApiKey(this.id, 'HUGGINGFACE_API_KEY');
+  }
+
+  async validateApiKey(apiKey: string): Promise<void> {
+    await assertKeyAccepted(this.name, () => fetch('https://huggingface.co/api/whoami-v2', {
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal: AbortSignal.timeout(10000)
+    }));
+  }
+
+  async generateResponse(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext = EMPTY_CONVERSATION
+  ): Promise<string> {
     try {
       if (!emotionContext || typeof emotionContext !== 'object') {
         emotionContext = createDefaultEmotionContext();
@@ -263,32 +776,45 @@ class HuggingFaceProvider implements AIProvider {
       
       قدم رداً متعاطفاً ومفيداً بالعربية (100-150 كلمة):`;
 
-      const response = await fetch(
+      const fullPrompt = withConversation(prompt, conversation);
+
+      const timeoutMs = readNumberSetting('HUGGINGFACE_TIMEOUT_MS', 20000);
+      const response = await fetchWithTimeout(
+        this.name,
         "https://api-inference.huggingface.co/models/microsoft/DialoGPT-medium",
         {
           method: "POST",
           headers: {
-            "Authorization": `Bearer ${process.env.HUGGINGFACE_API_KEY}`,
+            "Authorization": `Bearer ${this.getApiKey()}`,
             "Content-Type": "application/json",
           },
           body: JSON.stringify({
-            inputs: prompt,
+            inputs: fullPrompt,
             parameters: {
               max_length: 150,
               temperature: 0.7,
               do_sample: true
             }
           }),
-        }
+        },
+        timeoutMs
       );
 
-      const result = await response.json();
-      
+      if (!response.ok) {
+        // Error pages from the proxy in front of the API are not JSON
+        const body = await response.json().catch(() => null);
+        console.log(`Hugging Face API Error ${response.status}:`, body?.error);
+        throw huggingFaceError(this.name, response.status, body);
+      }
+
+      const result = await response.json().catch(error => {
+        throw toFetchError(this.name, error, timeoutMs);
+      });
       if (result.error) {
-        throw new Error(result.error);
+        throw huggingFaceError(this.name, response.status, result);
       }
 
-      return result[0]?.generated_text?.replace(prompt, "").trim() || 
+      return result[0]?.generated_text?.replace(fullPrompt, "").trim() || 
              "أعتذر، أواجه صعوبة في الرد الآن. هل يمكنك إعادة المحاولة؟";
     } catch (error) {
       console.error("Hugging Face error:", error);
@@ -312,6 +838,7 @@ class HuggingFaceProvider implements AIProvider {
 
 // Fallback Local Provider (Always available)
 class LocalProvider implements AIProvider {
+  id = "local";
   name = "الذكاء المحلي (مضمون)";
 
   isConfigured(): boolean {
@@ -395,12 +922,42 @@ class LocalProvider implements AIProvider {
   }
 }
 
+export interface ProviderRouting {
+  // Provider to try first, e.g. the one a session is pinned to
+  preferredProviderId?: string | null;
+  // When false only the preferred provider is tried and its failure is returned
+  allowFallback?: boolean;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Exponential backoff with jitter: ~base, ~2×base, ~4×base...
+function backoffDelay(attempt: number): number {
+  const base = readNumberSetting('AI_PROVIDER_RETRY_BASE_MS', 500);
+  return Math.round(base * 2 ** attempt * (0.75 + Math.random() * 0.5));
+}
+
+export interface ProviderStatus {
+  id: string;
+  name: string;
+  configured: boolean;
+  status: 'active' | 'inactive' | 'error';
+  description: string;
+  circuit: CircuitSnapshot;
+  telemetry: ProviderTelemetrySnapshot;
+}
+
 // Provider Manager
 class AIProviderManager {
   private providers: AIProvider[] = [];
+  private breakers: Map<string, CircuitBreaker> = new Map();
+  private telemetry = new ProviderTelemetry();
 
   constructor() {
     this.providers = [
+      new OpenAICompatibleProvider(), // On-prem model, preferred when configured
       new FreeGPTProvider(),    // Completely free, no API key needed!
       new GeminiProvider(),     // Free and powerful
       new OpenAIProvider(),     // Premium but reliable
@@ -409,57 +966,325 @@ class AIProviderManager {
     ];
   }
 
-  async generateResponse(userMessage: string, emotionContext: EmotionData): Promise<{
+  getProvider(id: string): AIProvider | undefined {
+    return this.providers.find(provider => provider.id === id);
+  }
+
+  async generateResponse(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext = EMPTY_CONVERSATION,
+    routing: ProviderRouting = {}
+  ): Promise<{
     response: string;
     provider: string;
   }> {
+    let lastError: unknown;
+
     // Try providers in order until one works
-    for (const provider of this.providers) {
+    for (const provider of this.getProviderChain(routing)) {
       if (provider.isConfigured()) {
+        const breaker = this.getBreaker(provider);
+        if (!breaker.tryAcquire()) {
+          console.log(`⛔ ${provider.name} circuit open, skipping...`);
+          lastError = this.circuitOpenError(provider);
+          continue;
+        }
+
         try {
           console.log(`Trying ${provider.name} for AI response...`);
-          const response = await provider.generateResponse(userMessage, emotionContext);
+          const response = await this.withRetries(provider, () =>
+            provider.generateResponse(userMessage, emotionContext, conversation)
+          );
+          breaker.recordSuccess();
           console.log(`✅ ${provider.name} responded successfully`);
           return {
             response,
             provider: provider.name
           };
         } catch (error) {
-          console.warn(`❌ ${provider.name} failed:`, error);
+          breaker.recordFailure();
+          lastError = error;
+          this.reportFailure(provider, error);
           continue; // Try next provider
         }
       } else {
         console.log(`⏭️ ${provider.name} not configured, skipping...`);
+        lastError = this.notConfiguredError(provider);
       }
     }
 
+    if (this.isStrict(routing)) {
+      throw lastError;
+    }
+
     // If all else fails, use local provider
     const localProvider = new LocalProvider();
-    const response = await localProvider.generateResponse(userMessage, emotionContext);
+    const response = await this.track(localProvider, () =>
+      localProvider.generateResponse(userMessage, emotionContext)
+    );
     return {
       response,
       provider: localProvider.name
     };
   }
 
-  getAvailableProviders(): Array<{name: string; configured: boolean; description: string}> {
-    return this.providers.map(provider => ({
-      name: provider.name,
-      configured: provider.isConfigured(),
-      description: this.getProviderDescription(provider.name)
-    }));
+  async streamResponse(
+    userMessage: string,
+    emotionContext: EmotionData,
+    conversation: ConversationContext,
+    handlers: StreamHandlers,
+    routing: ProviderRouting = {}
+  ): Promise<{
+    response: string;
+    provider: string;
+  }> {
+    let lastError: unknown;
+
+    for (const provider of this.getProviderChain(routing)) {
+      if (!provider.isConfigured()) {
+        console.log(`⏭️ ${provider.name} not configured, skipping...`);
+        lastError = this.notConfiguredError(provider);
+        continue;
+      }
+
+      const breaker = this.getBreaker(provider);
+      if (!breaker.tryAcquire()) {
+        console.log(`⛔ ${provider.name} circuit open, skipping...`);
+        lastError = this.circuitOpenError(provider);
+        continue;
+      }
+
+      let streamed = false;
+      try {
+        console.log(`Trying ${provider.name} for streamed AI response...`);
+        let response: string;
+        if (provider.streamResponse) {
+          const stream = provider.streamResponse.bind(provider);
+          // Once text reached the client a retry would duplicate it, so only
+          // failures before the first chunk are retried
+          response = await this.withRetries(provider, () =>
+            stream(userMessage, emotionContext, conversation, text => {
+              streamed = true;
+              handlers.onChunk(text);
+            }),
+            () => !streamed
+          );
+        } else {
+          response = await this.withRetries(provider, () =>
+            provider.generateResponse(userMessage, emotionContext, conversation)
+          );
+          handlers.onChunk(response);
+        }
+        breaker.recordSuccess();
+        console.log(`✅ ${provider.name} responded successfully`);
+        return { response, provider: provider.name };
+      } catch (error) {
+        breaker.recordFailure();
+        lastError = error;
+        this.reportFailure(provider, error);
+        if (streamed) handlers.onRestart();
+      }
+    }
+
+    if (this.isStrict(routing)) {
+      throw lastError;
+    }
+
+    const localProvider = new LocalProvider();
+    const response = await this.track(localProvider, () =>
+      localProvider.generateResponse(userMessage, emotionContext)
+    );
+    handlers.onChunk(response);
+    return {
+      response,
+      provider: localProvider.name
+    };
+  }
+
+  // Runs a single provider in isolation, without falling back to any other
+  async testProvider(providerId: string, userMessage: string, emotionContext: EmotionData): Promise<{
+    response: string;
+    provider: string;
+  }> {
+    const provider = this.getProvider(providerId);
+    if (!provider) {
+      throw new ProviderError(providerId, 'bad_request', `مزود غير معروف: ${providerId}`);
+    }
+    if (!provider.isConfigured()) {
+      throw this.notConfiguredError(provider);
+    }
+
+    // A manual test goes through the breaker like any other request: while the
+    // circuit is open it is refused, and after the cooldown it is the probe
+    const breaker = this.getBreaker(provider);
+    if (!breaker.tryAcquire()) {
+      throw this.circuitOpenError(provider);
+    }
+    try {
+      const response = await this.track(provider, () =>
+        provider.generateResponse(userMessage, emotionContext)
+      );
+      breaker.recordSuccess();
+      return { response, provider: provider.name };
+    } catch (error) {
+      breaker.recordFailure();
+      throw error;
+    }
+  }
+
+  // Retries transient failures (timeouts, rate limits, 5xx) with backoff;
+  // anything else is handed straight back to the fallback chain
+  private async withRetries<T>(
+    provider: AIProvider,
+    call: () => Promise<T>,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    const maxRetries = Math.max(0, Math.floor(readNumberSetting('AI_PROVIDER_MAX_RETRIES', 1)));
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.track(provider, call);
+      } catch (error) {
+        const retryable = error instanceof ProviderError && error.retryable;
+        if (!retryable || attempt >= maxRetries || !canRetry()) throw error;
+
+        const delay = backoffDelay(attempt);
+        console.warn(`🔁 ${provider.name} failed (${error.kind}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`);
+        await sleep(delay);
+      }
+    }
+  }
+
+  // Times a single provider call and feeds the outcome into its telemetry
+  private async track<T>(provider: AIProvider, call: () => Promise<T>): Promise<T> {
+    const startedAt = performance.now();
+    try {
+      const result = await call();
+      this.telemetry.recordSuccess(provider.id, performance.now() - startedAt);
+      return result;
+    } catch (error) {
+      this.telemetry.recordFailure(provider.id, performance.now() - startedAt, error);
+      throw error;
+    }
+  }
+
+  private getBreaker(provider: AIProvider): CircuitBreaker {
+    let breaker = this.breakers.get(provider.id);
+    if (!breaker) {
+      breaker = new CircuitBreaker({
+        failureThreshold: readNumberSetting('AI_CIRCUIT_FAILURE_THRESHOLD', 3),
+        cooldownMs: readNumberSetting('AI_CIRCUIT_COOLDOWN_MS', 60000)
+      });
+      this.breakers.set(provider.id, breaker);
+    }
+    return breaker;
+  }
+
+  // Providers whose API key can be set, rotated and revoked at runtime
+  getCredentialEnvVars(): Record<string, string> {
+    const envVars: Record<string, string> = {};
+    for (const provider of this.providers) {
+      if (provider.apiKeyEnvVar) envVars[provider.id] = provider.apiKeyEnvVar;
+    }
+    return envVars;
+  }
+
+  async validateApiKey(providerId: string, apiKey: string): Promise<void> {
+    const provider = this.getProvider(providerId);
+    if (!provider || !provider.apiKeyEnvVar) {
+      throw new ProviderError(providerId, 'bad_request', `المزود ${providerId} لا يستخدم مفتاح API`);
+    }
+    if (!provider.validateApiKey) {
+      throw new ProviderError(provider.name, 'bad_request', `لا يمكن التحقق من مفاتيح ${provider.name}`);
+    }
+    await provider.validateApiKey(apiKey);
+  }
+
+  private getProviderChain(routing: ProviderRouting): AIProvider[] {
+    const preferred = routing.preferredProviderId
+      ? this.getProvider(routing.preferredProviderId)
+      : undefined;
+
+    if (!preferred) return this.providers;
+    if (routing.allowFallback === false) return [preferred];
+    return [preferred, ...this.providers.filter(provider => provider !== preferred)];
+  }
+
+  private isStrict(routing: ProviderRouting): boolean {
+    return routing.allowFallback === false
+      && !!routing.preferredProviderId
+      && !!this.getProvider(routing.preferredProviderId);
+  }
+
+  private notConfiguredError(provider: AIProvider): ProviderError {
+    return new ProviderError(provider.name, 'not_configured', `${provider.name} غير مُعد`);
+  }
+
+  private circuitOpenError(provider: AIProvider): ProviderError {
+    return new ProviderError(provider.name, 'unavailable', `${provider.name} متوقف مؤقتاً بعد أخطاء متكررة`);
+  }
+
+  private reportFailure(provider: AIProvider, error: unknown): void {
+    if (!(error instanceof ProviderError)) {
+      console.warn(`❌ ${provider.name} failed:`, error);
+      return;
+    }
+
+    switch (error.kind) {
+      case 'auth':
+        console.warn(`🔑 ${provider.name} rejected its credentials (${error.status}) - check the API key`);
+        break;
+      case 'rate_limit':
+        console.warn(`⏳ ${provider.name} is rate limited, falling back`);
+        break;
+      default:
+        console.warn(`❌ ${provider.name} failed (${error.kind}):`, error.message);
+    }
+  }
+
+  getAvailableProviders(): ProviderStatus[] {
+    return this.providers.map(provider => {
+      const configured = provider.isConfigured();
+      const circuit = this.getBreaker(provider).snapshot();
+      const telemetry = this.telemetry.snapshot(provider.id);
+      return {
+        id: provider.id,
+        name: provider.name,
+        configured,
+        status: this.getHealthStatus(configured, circuit, telemetry),
+        description: this.getProviderDescription(provider.id),
+        circuit,
+        telemetry
+      };
+    });
+  }
+
+  // Health from real traffic: an open circuit or a failing latest call is an
+  // error, a configured provider without failures since its last success is active
+  private getHealthStatus(
+    configured: boolean,
+    circuit: CircuitSnapshot,
+    telemetry: ProviderTelemetrySnapshot
+  ): ProviderStatus['status'] {
+    if (!configured) return 'inactive';
+    if (circuit.state === 'open') return 'error';
+    const { lastError, lastSuccessAt } = telemetry;
+    if (lastError && (!lastSuccessAt || lastError.at > lastSuccessAt)) return 'error';
+    return 'active';
   }
 
-  private getProviderDescription(name: string): string {
+  private getProviderDescription(id: string): string {
     const descriptions = {
-      "Free GPT (مجاني تماماً)": "مزود مجاني تماماً - بدون مفاتيح API",
-      "Google Gemini (مجاني)": "ذكاء اصطناعي متقدم من Google - مجاني للاستخدام الشخصي",
-      "OpenAI GPT-4o": "أحدث نماذج GPT من OpenAI - يتطلب مفتاح API",
-      "Hugging Face (مجاني)": "مزود مفتوح المصدر - مجاني مع مفتاح API",
-      "الذكاء المحلي (مضمون)": "ردود ذكية محلية - متاح دائماً كاحتياطي"
+      "openai-compatible": "نموذج يعمل على خوادمك (Ollama، llama.cpp، vLLM) - البيانات لا تغادر المؤسسة",
+      "free-gpt": "مزود مجاني تماماً - بدون مفاتيح API",
+      "gemini": "ذكاء اصطناعي متقدم من Google - مجاني للاستخدام الشخصي",
+      "openai": "أحدث نماذج GPT من OpenAI - يتطلب مفتاح API",
+      "huggingface": "مزود مفتوح المصدر - مجاني مع مفتاح API",
+      "local": "ردود ذكية محلية - متاح دائماً كاحتياطي"
     };
-    return descriptions[name as keyof typeof descriptions] || "مزود ذكاء اصطناعي";
+    return descriptions[id as keyof typeof descriptions] || "مزود ذكاء اصطناعي";
   }
 }
 
-export const aiProviderManager = new AIProviderManager();
\ No newline at end of file
+export const aiProviderManager = new AIProviderManager();
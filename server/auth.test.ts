@@ -0,0 +1,79 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import { storage } from "./storage";
+import { FIXTURE_IDS, loadFixtures } from "./fixtures";
+import { getOwnedSession, requireSessionOwner, toPublicUser } from "./auth";
+import type { User } from "@shared/schema";
+
+const { users, sessions } = FIXTURE_IDS;
+
+// Runs the middleware for a request by `user` (logged out when null) and
+// reports whether it let the request through or what it answered
+async function checkOwner(user: User | null, sessionId: unknown) {
+  const req = {
+    user: user ?? undefined,
+    isAuthenticated: () => user !== null,
+  } as unknown as Request;
+  let status = 200;
+  let body: any;
+  const res = {
+    locals: {},
+    status(code: number) {
+      status = code;
+      return this;
+    },
+    json(payload: unknown) {
+      body = payload;
+      return this;
+    },
+  } as unknown as Response;
+  let passed = false;
+
+  await requireSessionOwner(() => sessionId)(req, res, error => {
+    if (error) throw error;
+    passed = true;
+  });
+  return { passed, status, body, res };
+}
+
+describe("requireSessionOwner", () => {
+  let layla: User;
+  let omar: User;
+
+  before(async () => {
+    await loadFixtures(storage);
+    layla = (await storage.getUser(users.layla))!;
+    omar = (await storage.getUser(users.omar))!;
+  });
+
+  it("lets the owner through with the session on res.locals", async () => {
+    const { passed, res } = await checkOwner(layla, sessions.laylaPast);
+
+    assert.ok(passed);
+    assert.equal(getOwnedSession(res).id, sessions.laylaPast);
+  });
+
+  it("answers another user's session as missing", async () => {
+    const foreign = await checkOwner(omar, sessions.laylaPast);
+    const unknown = await checkOwner(omar, "00000000-0000-4000-8000-000000009999");
+
+    assert.equal(foreign.passed, false);
+    assert.equal(foreign.status, 404);
+    assert.deepEqual(foreign.body, unknown.body);
+  });
+
+  it("rejects logged-out requests and missing ids", async () => {
+    const loggedOut = await checkOwner(null, sessions.laylaPast);
+    const missingId = await checkOwner(layla, undefined);
+
+    assert.equal(loggedOut.status, 401);
+    assert.equal(missingId.status, 400);
+    assert.equal(loggedOut.passed || missingId.passed, false);
+  });
+
+  it("leaves the password hash out of the public user", () => {
+    assert.ok(layla.passwordHash);
+    assert.equal("passwordHash" in toPublicUser(layla), false);
+  });
+});
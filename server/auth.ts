@@ -0,0 +1,243 @@
+import { randomBytes } from "crypto";
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import connectPgSimple from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { storage, DbStorage, UserNameTakenError } from "./storage";
+import { hashPassword, verifyPassword } from "./passwords";
+import {
+  signupSchema,
+  type Session,
+  type User as UserRecord,
+  type PublicUser
+} from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends UserRecord {}
+  }
+}
+
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export function toPublicUser(user: UserRecord): PublicUser {
+  const { passwordHash: _passwordHash, ...publicUser } = user;
+  return publicUser;
+}
+
+// Login sessions live next to the data: Postgres when storage is Postgres,
+// otherwise an in-process store that prunes expired entries
+function createSessionStore(): session.Store {
+  if (storage instanceof DbStorage) {
+    const PgStore = connectPgSimple(session);
+    return new PgStore({ pool: storage.pool, tableName: "user_sessions" });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  console.warn("⚠️ SESSION_SECRET is not set; using a random secret, logins end when the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+// Logs the user into the cookie session and answers with the public user
+function logIn(req: Request, res: Response, next: NextFunction, user: UserRecord, status = 200) {
+  req.login(user, error => {
+    if (error) return next(error);
+    res.status(status).json(toPublicUser(user));
+  });
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(session({
+    name: "alchat.sid",
+    store: createSessionStore(),
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_MAX_AGE_MS,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy({ usernameField: "name" }, async (name, password, done) => {
+    try {
+      const user = await storage.getUserByName(name.trim());
+      if (!user || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false);
+      }
+      done(null, user);
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/signup", async (req, res, next) => {
+    const parsed = signupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "بيانات التسجيل غير صالحة" });
+    }
+
+    const { name, password, email } = parsed.data;
+    try {
+      if (await storage.getUserByName(name)) {
+        return res.status(409).json({ error: "اسم المستخدم مستخدم بالفعل" });
+      }
+      const user = await storage.createUser({
+        name,
+        email,
+        passwordHash: await hashPassword(password),
+        isGuest: false,
+      });
+      logIn(req, res, next, user, 201);
+    } catch (error) {
+      if (error instanceof UserNameTakenError) {
+        return res.status(409).json({ error: "اسم المستخدم مستخدم بالفعل" });
+      }
+      next(error);
+    }
+  });
+
+  // Registers the logged-in guest under a name and password. The guest record
+  // itself becomes the account, so its history stays with it. A name that is
+  // already taken is rejected, never merged into the existing account.
+  app.post("/api/auth/claim", requireAuth, async (req, res, next) => {
+    const parsed = signupSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "بيانات التسجيل غير صالحة" });
+    }
+    if (!req.user!.isGuest) {
+      return res.status(409).json({ error: "هذا الحساب مسجل بالفعل" });
+    }
+
+    const { name, password, email } = parsed.data;
+    try {
+      const existing = await storage.getUserByName(name);
+      if (existing && existing.id !== req.user!.id) {
+        return res.status(409).json({ error: "اسم المستخدم مستخدم بالفعل" });
+      }
+
+      const user = await storage.claimGuestUser(req.user!.id, {
+        name,
+        email,
+        passwordHash: await hashPassword(password),
+      });
+      if (!user) {
+        return res.status(409).json({ error: "هذا الحساب مسجل بالفعل" });
+      }
+      // New session id now that the account has credentials
+      req.session.regenerate(error => {
+        if (error) return next(error);
+        logIn(req, res, next, user);
+      });
+    } catch (error) {
+      if (error instanceof UserNameTakenError) {
+        return res.status(409).json({ error: "اسم المستخدم مستخدم بالفعل" });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (error: unknown, user: UserRecord | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: "اسم المستخدم أو كلمة المرور غير صحيحة" });
+      }
+      logIn(req, res, next, user);
+    })(req, res, next);
+  });
+
+  // Anonymous account kept server-side, so a visitor can chat before signing up
+  app.post("/api/auth/guest", async (req, res, next) => {
+    if (req.user) {
+      return res.json(toPublicUser(req.user));
+    }
+    try {
+      const user = await storage.createUser({
+        name: `ضيف_${randomBytes(6).toString("hex")}`,
+        isGuest: true,
+      });
+      logIn(req, res, next, user, 201);
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout(error => {
+      if (error) return next(error);
+      req.session.destroy(() => res.status(204).end());
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "غير مسجل الدخول" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+}
+
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ error: "غير مسجل الدخول" });
+  }
+  next();
+}
+
+// Loads the chat session named by the request and lets the request through
+// only when it belongs to the logged-in user. Sessions of other users are
+// reported as missing so their ids cannot be probed. The session is left on
+// res.locals.session for the route.
+export function requireSessionOwner(getSessionId: (req: Request) => unknown) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: "غير مسجل الدخول" });
+    }
+
+    const sessionId = getSessionId(req);
+    if (typeof sessionId !== "string" || !sessionId) {
+      return res.status(400).json({ error: "sessionId is required" });
+    }
+
+    try {
+      const chatSession = await storage.getSession(sessionId);
+      if (!chatSession || chatSession.userId !== req.user.id) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.locals.session = chatSession;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
+export function getOwnedSession(res: Response): Session {
+  return res.locals.session as Session;
+}
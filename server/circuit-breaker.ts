@@ -0,0 +1,67 @@
+export type CircuitState = "closed" | "open" | "half_open";
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before a probe is let through
+  cooldownMs: number;
+}
+
+export interface CircuitSnapshot {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  nextProbeAt: string | null;
+}
+
+// Per-provider breaker: after `failureThreshold` consecutive failures the
+// provider is skipped for `cooldownMs`, then a single probe request decides
+// whether it closes again or stays open for another cooldown.
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private probeInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  // Whether a request may go out now; moves an expired open circuit to half-open
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === "closed") return true;
+
+    if (this.state === "open") {
+      if (now - this.openedAt! < this.options.cooldownMs) return false;
+      this.state = "half_open";
+    }
+
+    if (this.probeInFlight) return false;
+    this.probeInFlight = true;
+    return true;
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+    this.openedAt = null;
+    this.probeInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    this.probeInFlight = false;
+    if (this.state === "half_open" || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.state = "open";
+      this.openedAt = now;
+    }
+  }
+
+  snapshot(now: number = Date.now()): CircuitSnapshot {
+    const isOpen = this.state === "open" && this.openedAt !== null;
+    return {
+      state: isOpen && now - this.openedAt! >= this.options.cooldownMs ? "half_open" : this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      nextProbeAt: isOpen ? new Date(this.openedAt! + this.options.cooldownMs).toISOString() : null,
+    };
+  }
+}
@@ -0,0 +1,133 @@
+import type { ChatMessage, EmotionData } from "@shared/schema";
+
+export interface ConversationTurn {
+  role: "user" | "assistant";
+  content: string;
+  emotionContext: EmotionData | null;
+  timestamp: Date | null;
+}
+
+export interface ConversationContext {
+  // Most recent turns, oldest first
+  turns: ConversationTurn[];
+  // Condensed description of the turns that fell out of the window
+  summary: string | null;
+}
+
+export const EMPTY_CONVERSATION: ConversationContext = { turns: [], summary: null };
+
+const DEFAULT_WINDOW_SIZE = 10;
+const MAX_SUMMARY_TOPICS = 6;
+const MAX_TOPIC_LENGTH = 80;
+const MAX_SUMMARY_LENGTH = 800;
+
+const emotionNames: Record<keyof EmotionData, string> = {
+  happy: "السعادة",
+  sad: "الحزن",
+  angry: "الغضب",
+  surprised: "التفاجؤ",
+  fearful: "الخوف",
+  disgusted: "الاشمئزاز",
+  neutral: "الحياد"
+};
+
+export function getHistoryWindowSize(): number {
+  const configured = parseInt(process.env.CHAT_HISTORY_WINDOW || "", 10);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_WINDOW_SIZE;
+}
+
+export function getDominantEmotionName(emotions: EmotionData | null): string | null {
+  if (!emotions || typeof emotions !== "object") return null;
+  const entries = Object.entries(emotions) as [keyof EmotionData, number][];
+  if (entries.length === 0) return null;
+  const [emotion] = entries.reduce((a, b) => (a[1] > b[1] ? a : b));
+  return emotionNames[emotion] || emotion;
+}
+
+function toTurn(message: ChatMessage): ConversationTurn {
+  return {
+    role: message.isUser ? "user" : "assistant",
+    content: message.content,
+    emotionContext: (message.emotionContext as EmotionData | null) ?? null,
+    timestamp: message.timestamp,
+  };
+}
+
+function truncate(text: string, maxLength: number): string {
+  const singleLine = text.replace(/\s+/g, " ").trim();
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+}
+
+// Extractive summary of the older turns: what the user talked about and how
+// their dominant emotion moved over that part of the conversation.
+function summarizeTurns(turns: ConversationTurn[]): string | null {
+  const userTurns = turns.filter(turn => turn.role === "user");
+  if (userTurns.length === 0) return null;
+
+  const topics = userTurns
+    .slice(-MAX_SUMMARY_TOPICS)
+    .map(turn => `- ${truncate(turn.content, MAX_TOPIC_LENGTH)}`);
+
+  const moods: string[] = [];
+  for (const turn of userTurns) {
+    const mood = getDominantEmotionName(turn.emotionContext);
+    if (mood && moods[moods.length - 1] !== mood) moods.push(mood);
+  }
+
+  const lines = [
+    `ملخص ${userTurns.length} رسائل سابقة من المستخدم:`,
+    ...(userTurns.length > MAX_SUMMARY_TOPICS ? ["- (وموضوعات أقدم)"] : []),
+    ...topics,
+  ];
+  if (moods.length > 0) {
+    lines.push(`تطور مشاعره: ${moods.join(" ← ")}`);
+  }
+
+  const summary = lines.join("\n");
+  return summary.length > MAX_SUMMARY_LENGTH
+    ? `${summary.slice(0, MAX_SUMMARY_LENGTH - 1)}…`
+    : summary;
+}
+
+// Builds the bounded history a provider receives for the next reply. `messages`
+// are the stored messages of the session, not including the one being answered.
+export function buildConversationContext(
+  messages: ChatMessage[],
+  windowSize: number = getHistoryWindowSize()
+): ConversationContext {
+  const turns = [...messages]
+    .sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0))
+    .map(toTurn);
+
+  if (turns.length <= windowSize) {
+    return { turns, summary: null };
+  }
+
+  const overflow = turns.slice(0, turns.length - windowSize);
+  return {
+    turns: turns.slice(-windowSize),
+    summary: summarizeTurns(overflow),
+  };
+}
+
+// Plain-text rendering for providers that only accept a single prompt string
+export function formatConversationForPrompt(conversation: ConversationContext): string {
+  const sections: string[] = [];
+
+  if (conversation.summary) {
+    sections.push(conversation.summary);
+  }
+
+  if (conversation.turns.length > 0) {
+    const transcript = conversation.turns.map(turn => {
+      const speaker = turn.role === "user" ? "المستخدم" : "المساعد";
+      const mood = turn.role === "user" ? getDominantEmotionName(turn.emotionContext) : null;
+      return mood
+        ? `${speaker} (يشعر بـ ${mood}): ${turn.content}`
+        : `${speaker}: ${turn.content}`;
+    });
+    sections.push(`المحادثة حتى الآن:\n${transcript.join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+}
@@ -0,0 +1,150 @@
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from "crypto";
+import { storage } from "./storage";
+import type { ProviderCredential } from "@shared/schema";
+
+const ALGORITHM = "aes-256-gcm";
+const IV_LENGTH = 12;
+const KEY_LENGTH = 32;
+const VISIBLE_SUFFIX_LENGTH = 4;
+const KEY_DERIVATION_SALT = "alchat-provider-credentials";
+
+export interface MaskedCredential {
+  providerId: string;
+  maskedKey: string;
+  source: "stored" | "environment";
+  updatedAt: Date | null;
+  lastValidatedAt: Date | null;
+}
+
+export function maskApiKey(suffix: string): string {
+  return `••••${suffix}`;
+}
+
+// CREDENTIALS_ENCRYPTION_KEY may be a 32-byte key in hex or base64; anything
+// else is treated as a passphrase and stretched with scrypt.
+function getEncryptionKey(): Buffer {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY?.trim();
+  if (!secret) {
+    throw new Error("CREDENTIALS_ENCRYPTION_KEY is not set; runtime provider keys cannot be stored.");
+  }
+
+  if (/^[0-9a-f]{64}$/i.test(secret)) {
+    return Buffer.from(secret, "hex");
+  }
+  const decoded = Buffer.from(secret, "base64");
+  if (decoded.length === KEY_LENGTH && decoded.toString("base64") === secret) {
+    return decoded;
+  }
+  return scryptSync(secret, KEY_DERIVATION_SALT, KEY_LENGTH);
+}
+
+export function isCredentialStorageEnabled(): boolean {
+  return !!process.env.CREDENTIALS_ENCRYPTION_KEY?.trim();
+}
+
+function encrypt(plaintext: string): Pick<ProviderCredential, "ciphertext" | "iv" | "authTag"> {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv(ALGORITHM, getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+  return {
+    ciphertext: ciphertext.toString("base64"),
+    iv: iv.toString("base64"),
+    authTag: cipher.getAuthTag().toString("base64"),
+  };
+}
+
+function decrypt(credential: ProviderCredential): string {
+  const decipher = createDecipheriv(ALGORITHM, getEncryptionKey(), Buffer.from(credential.iv, "base64"));
+  decipher.setAuthTag(Buffer.from(credential.authTag, "base64"));
+  return Buffer.concat([
+    decipher.update(Buffer.from(credential.ciphertext, "base64")),
+    decipher.final(),
+  ]).toString("utf8");
+}
+
+// Keeps decrypted keys in memory so providers can read them synchronously from
+// isConfigured(); storage only ever holds the encrypted form.
+class CredentialVault {
+  private keys: Map<string, string> = new Map();
+  private records: Map<string, ProviderCredential> = new Map();
+
+  async load(): Promise<void> {
+    const credentials = await storage.listProviderCredentials();
+    if (credentials.length === 0) return;
+
+    if (!isCredentialStorageEnabled()) {
+      console.warn(`⚠️ ${credentials.length} stored provider key(s) ignored: CREDENTIALS_ENCRYPTION_KEY is not set`);
+      return;
+    }
+
+    for (const credential of credentials) {
+      try {
+        this.keys.set(credential.providerId, decrypt(credential));
+        this.records.set(credential.providerId, credential);
+      } catch (error) {
+        console.error(`❌ Could not decrypt stored key for ${credential.providerId}; was the encryption key changed?`);
+      }
+    }
+    console.log(`🔐 Loaded ${this.keys.size} stored provider key(s)`);
+  }
+
+  get(providerId: string): string | undefined {
+    return this.keys.get(providerId);
+  }
+
+  async set(providerId: string, apiKey: string, validatedAt: Date | null): Promise<MaskedCredential> {
+    const record = await storage.upsertProviderCredential({
+      providerId,
+      ...encrypt(apiKey),
+      keySuffix: apiKey.slice(-VISIBLE_SUFFIX_LENGTH),
+      lastValidatedAt: validatedAt,
+    });
+    this.keys.set(providerId, apiKey);
+    this.records.set(providerId, record);
+    return this.toMasked(record);
+  }
+
+  async revoke(providerId: string): Promise<boolean> {
+    const deleted = await storage.deleteProviderCredential(providerId);
+    const cached = this.keys.delete(providerId);
+    this.records.delete(providerId);
+    return deleted || cached;
+  }
+
+  // Stored keys plus keys that only come from the environment
+  list(environmentKeys: Record<string, string | undefined>): MaskedCredential[] {
+    const result = Array.from(this.records.values()).map(record => this.toMasked(record));
+
+    for (const [providerId, envVar] of Object.entries(environmentKeys)) {
+      const value = envVar ? process.env[envVar]?.trim() : undefined;
+      if (!this.records.has(providerId) && value) {
+        result.push({
+          providerId,
+          maskedKey: maskApiKey(value.slice(-VISIBLE_SUFFIX_LENGTH)),
+          source: "environment",
+          updatedAt: null,
+          lastValidatedAt: null,
+        });
+      }
+    }
+
+    return result;
+  }
+
+  private toMasked(record: ProviderCredential): MaskedCredential {
+    return {
+      providerId: record.providerId,
+      maskedKey: maskApiKey(record.keySuffix),
+      source: "stored",
+      updatedAt: record.updatedAt,
+      lastValidatedAt: record.lastValidatedAt,
+    };
+  }
+}
+
+export const credentialVault = new CredentialVault();
+
+// A key stored at runtime takes precedence over the environment variable
+export function getProviderApiKey(providerId: string, envVar: string): string | undefined {
+  return credentialVault.get(providerId) || process.env[envVar] || undefined;
+}
@@ -0,0 +1,14 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+export function createDb(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  const db = drizzle({ client: pool, schema });
+  return { pool, db };
+}
+
+export type Database = ReturnType<typeof createDb>["db"];
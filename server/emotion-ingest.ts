@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import { readRawRetentionMs, readRollupTiers, rollUpForTiers } from "./emotion-rollups";
+import type { EmotionAnalysis, EmotionSample, NewEmotionSample, Session } from "@shared/schema";
+
+export const rollupTiers = readRollupTiers();
+const rawRetentionMs = readRawRetentionMs();
+const RETENTION_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+
+// Samples may sit this far outside the session (after clock correction)
+const TIMESTAMP_TOLERANCE_MS = 60 * 1000;
+
+// The tier kept longest; session summaries are computed from it because its
+// rollups are still there after raw samples and finer tiers have expired
+export const summaryTier = [...rollupTiers].sort((a, b) =>
+  (b.retentionMs ?? Infinity) - (a.retentionMs ?? Infinity) || b.bucketSeconds - a.bucketSeconds
+)[0];
+
+// Raised for samples timestamped before the session started or in the future
+export class EmotionSampleTimeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmotionSampleTimeError";
+  }
+}
+
+// Stores samples of a session with their rollups. `clockOffsetMs` is added to
+// the client timestamps to move them onto the server clock.
+export async function ingestEmotionSamples(
+  session: Session,
+  samples: EmotionSample[],
+  clockOffsetMs = 0
+): Promise<EmotionAnalysis[]> {
+  const now = Date.now();
+  const earliest = (session.startTime?.getTime() ?? now) - TIMESTAMP_TOLERANCE_MS;
+
+  const rows: NewEmotionSample[] = samples
+    .map(sample => ({
+      sessionId: session.id,
+      timestamp: new Date(sample.timestamp.getTime() + clockOffsetMs),
+      emotions: sample.emotions,
+      age: sample.age,
+      gender: sample.gender,
+      confidence: sample.confidence !== undefined ? Math.round(sample.confidence) : undefined,
+      subjectPresent: sample.subjectPresent ?? true,
+    }))
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const outOfRange = rows.find(row =>
+    row.timestamp.getTime() < earliest || row.timestamp.getTime() > now + TIMESTAMP_TOLERANCE_MS
+  );
+  if (outOfRange) {
+    throw new EmotionSampleTimeError(`Sample timestamp ${outOfRange.timestamp.toISOString()} is outside the session`);
+  }
+
+  return storage.saveEmotionSamples(rows, rollUpForTiers(session.id, rows, rollupTiers));
+}
+
+// Periodically drops raw samples and rollups that are past their retention
+export function startEmotionRetention(): NodeJS.Timeout {
+  const prune = async () => {
+    try {
+      const now = Date.now();
+      let deleted = await storage.deleteEmotionAnalysesBefore(new Date(now - rawRetentionMs));
+      for (const tier of rollupTiers) {
+        if (tier.retentionMs !== null) {
+          deleted += await storage.deleteEmotionRollupsBefore(tier.bucketSeconds, new Date(now - tier.retentionMs));
+        }
+      }
+      if (deleted > 0) {
+        console.log(`🧹 Pruned ${deleted} expired emotion rows`);
+      }
+    } catch (error) {
+      console.error("Failed to prune emotion data:", error);
+    }
+  };
+
+  const timer = setInterval(prune, RETENTION_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,132 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { FIXTURE_IDS, loadFixtures } from "./fixtures";
+import {
+  bucketStartOf,
+  mergeRollups,
+  readRollupTiers,
+  rollUpSamples,
+  rollupMaxima,
+  rollupMeans
+} from "./emotion-rollups";
+import { EmotionSampleTimeError, ingestEmotionSamples, summaryTier } from "./emotion-ingest";
+import type { EmotionData, EmotionRollup, InsertEmotionRollup, NewEmotionSample } from "@shared/schema";
+
+const { sessions } = FIXTURE_IDS;
+const DAY = 24 * 60 * 60 * 1000;
+
+function emotions(overrides: Partial<EmotionData>): EmotionData {
+  return { happy: 0, sad: 0, angry: 0, surprised: 0, fearful: 0, disgusted: 0, neutral: 0, ...overrides };
+}
+
+function sample(timestamp: string, overrides: Partial<NewEmotionSample>): NewEmotionSample {
+  return { sessionId: sessions.laylaPast, timestamp: new Date(timestamp), emotions: emotions({}), ...overrides };
+}
+
+// Rollup rows as the storage layer returns them
+function stored(rollup: InsertEmotionRollup): EmotionRollup {
+  return { weightedEmotionSums: {}, weightSum: 0, confidenceSum: 0, confidenceCount: 0, ...rollup } as EmotionRollup;
+}
+
+describe("emotion rollups", () => {
+  it("reads bucket sizes and retention periods", () => {
+    assert.deepEqual(readRollupTiers("1s:30d,1m"), [
+      { bucketSeconds: 1, retentionMs: 30 * DAY },
+      { bucketSeconds: 60, retentionMs: null },
+    ]);
+    assert.throws(() => readRollupTiers("500ms"), /Invalid duration/);
+    assert.throws(() => readRollupTiers(""), /at least one bucket/);
+  });
+
+  it("aligns buckets to the epoch or to a given origin", () => {
+    const timestamp = new Date("2026-03-10T12:34:56Z");
+
+    assert.equal(bucketStartOf(timestamp, 60).toISOString(), "2026-03-10T12:34:00.000Z");
+    assert.equal(
+      bucketStartOf(timestamp, 24 * 60 * 60, new Date("1970-01-01T03:00:00Z")).toISOString(),
+      "2026-03-10T03:00:00.000Z"
+    );
+  });
+
+  it("weights means by confidence and skips frames without the subject", () => {
+    const [rollup] = rollUpSamples(sessions.laylaPast, [
+      sample("2026-03-10T12:00:01Z", { emotions: emotions({ happy: 80, sad: 20 }), confidence: 90 }),
+      sample("2026-03-10T12:00:02Z", { emotions: emotions({ happy: 20, sad: 80 }), confidence: 30 }),
+      sample("2026-03-10T12:00:03Z", { emotions: emotions({}), subjectPresent: false }),
+    ], 60);
+
+    assert.equal(rollup.sampleCount, 2);
+    assert.equal(rollup.confidenceCount, 2);
+    const means = rollupMeans(stored(rollup));
+    assert.ok(Math.abs(means.happy - 65) < 1e-9);
+    assert.ok(Math.abs(means.sad - 35) < 1e-9);
+    assert.equal(rollupMaxima(stored(rollup)).sad, 80);
+  });
+
+  it("merges partial rollups into the rollup of all their samples", () => {
+    const samples = Array.from({ length: 12 }, (_, i) => sample(`2026-03-10T12:00:${String(i * 5).padStart(2, "0")}Z`, {
+      emotions: emotions({ happy: i * 5, neutral: 100 - i * 5 }),
+      confidence: 50 + i,
+    }));
+    const [whole] = rollUpSamples(sessions.laylaPast, samples, 60);
+    const [first] = rollUpSamples(sessions.laylaPast, samples.slice(0, 5), 60);
+    const [rest] = rollUpSamples(sessions.laylaPast, samples.slice(5), 60);
+
+    const merged = mergeRollups(stored(first), rest);
+
+    assert.equal(merged.sampleCount, whole.sampleCount);
+    assert.equal(merged.confidenceSum, whole.confidenceSum);
+    assert.deepEqual(merged.emotionMaxima, whole.emotionMaxima);
+    for (const [key, value] of Object.entries(rollupMeans(stored(whole)))) {
+      assert.ok(Math.abs(rollupMeans(merged)[key as keyof EmotionData] - value) < 1e-9);
+    }
+  });
+});
+
+describe("emotion ingestion and retention", () => {
+  before(async () => {
+    await loadFixtures(storage);
+  });
+
+  it("adds ingested samples to the summary rollups", async () => {
+    const session = (await storage.getSession(sessions.laylaActive))!;
+    const summaryBefore = await storage.getEmotionRollups(session.id, summaryTier.bucketSeconds);
+    const countBefore = summaryBefore.reduce((sum, rollup) => sum + rollup.sampleCount, 0);
+
+    await ingestEmotionSamples(session, [
+      { timestamp: new Date(), emotions: emotions({ happy: 90, neutral: 10 }), confidence: 88 },
+      { timestamp: new Date(), emotions: emotions({ happy: 70, neutral: 30 }), confidence: 92 },
+    ]);
+
+    const summaryAfter = await storage.getEmotionRollups(session.id, summaryTier.bucketSeconds);
+    assert.equal(summaryAfter.reduce((sum, rollup) => sum + rollup.sampleCount, 0), countBefore + 2);
+  });
+
+  it("rejects samples from before the session started", async () => {
+    const session = (await storage.getSession(sessions.laylaActive))!;
+
+    await assert.rejects(
+      ingestEmotionSamples(session, [{ timestamp: new Date(session.startTime!.getTime() - DAY), emotions: emotions({ sad: 100 }) }]),
+      EmotionSampleTimeError
+    );
+  });
+
+  it("expires raw samples and fine rollups while the summary tier keeps the totals", async () => {
+    const cutoff = new Date(Date.now() - DAY);
+    // Both past sessions are older than a day; the active one is not
+    const expired = [sessions.laylaPast, sessions.omarPast];
+    const rawBefore = await Promise.all(expired.map(id => storage.getEmotionAnalysesBySession(id)));
+    const summaryBefore = await storage.getEmotionRollups(sessions.laylaPast, summaryTier.bucketSeconds);
+
+    const deletedRaw = await storage.deleteEmotionAnalysesBefore(cutoff);
+    const deletedFine = await storage.deleteEmotionRollupsBefore(1, cutoff);
+
+    assert.equal(deletedRaw, rawBefore.flat().length);
+    assert.ok(deletedFine > 0);
+    assert.deepEqual(await storage.getEmotionAnalysesBySession(sessions.laylaPast), []);
+    assert.deepEqual(await storage.getEmotionRollups(sessions.laylaPast, 1), []);
+    assert.ok((await storage.getEmotionAnalysesBySession(sessions.laylaActive)).length > 0);
+    assert.deepEqual(await storage.getEmotionRollups(sessions.laylaPast, summaryTier.bucketSeconds), summaryBefore);
+  });
+});
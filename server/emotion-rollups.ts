@@ -0,0 +1,200 @@
+import {
+  EMOTION_KEYS,
+  type EmotionData,
+  type EmotionRollup,
+  type InsertEmotionRollup,
+  type NewEmotionSample
+} from "@shared/schema";
+import type { EmotionReading } from "@shared/emotion-smoothing";
+
+export interface RollupTier {
+  bucketSeconds: number;
+  // How long the rollups are kept; null keeps them for good
+  retentionMs: number | null;
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+// "30s", "5m", "24h", "7d"
+export function parseDuration(text: string): number {
+  const match = /^(\d+)([smhd])$/.exec(text.trim());
+  if (!match) {
+    throw new Error(`Invalid duration "${text}", expected a number followed by s, m, h or d`);
+  }
+  return parseInt(match[1], 10) * DURATION_UNITS_MS[match[2]];
+}
+
+// EMOTION_ROLLUPS lists the bucket sizes, each with an optional retention:
+// "1s:30d,1m" keeps per-second rollups for 30 days and per-minute ones forever
+export function readRollupTiers(spec: string = process.env.EMOTION_ROLLUPS || "1s:30d,1m"): RollupTier[] {
+  const tiers = spec.split(",").filter(part => part.trim()).map(part => {
+    const [bucket, retention] = part.split(":");
+    const bucketMs = parseDuration(bucket);
+    if (bucketMs % 1000 !== 0) {
+      throw new Error(`Rollup bucket "${bucket}" must be a whole number of seconds`);
+    }
+    return {
+      bucketSeconds: bucketMs / 1000,
+      retentionMs: retention ? parseDuration(retention) : null,
+    };
+  });
+  if (tiers.length === 0) {
+    throw new Error("EMOTION_ROLLUPS must list at least one bucket size");
+  }
+  return tiers;
+}
+
+// How long full-resolution samples are kept (EMOTION_RAW_RETENTION)
+export function readRawRetentionMs(): number {
+  return parseDuration(process.env.EMOTION_RAW_RETENTION || "7d");
+}
+
+// Rollups of one tier regrouped into larger buckets, for [from, to). The
+// bucket size must be a multiple of the tier's so no source bucket is split.
+export interface RollupRange {
+  sourceBucketSeconds: number;
+  bucketSeconds: number;
+  from: Date;
+  to: Date;
+  // Instant the buckets are aligned to; the Unix epoch by default
+  origin?: Date;
+}
+
+// Buckets are aligned to the Unix epoch unless another origin is given, like
+// date_bin(..., origin)
+export function bucketStartOf(timestamp: Date, bucketSeconds: number, origin = new Date(0)): Date {
+  const bucketMs = bucketSeconds * 1000;
+  const originMs = origin.getTime();
+  return new Date(originMs + Math.floor((timestamp.getTime() - originMs) / bucketMs) * bucketMs);
+}
+
+// How much a sample counts towards weighted means: its confidence as a
+// fraction, or a full weight for samples stored without one
+export function sampleWeight(confidence: number | null | undefined): number {
+  return confidence == null ? 1 : Math.min(100, Math.max(0, confidence)) / 100;
+}
+
+// Rollup rows for the samples of one session, one per bucket. Rows for a
+// bucket that already exists are merged into it by the storage layer.
+export function rollUpSamples(
+  sessionId: string,
+  samples: NewEmotionSample[],
+  bucketSeconds: number
+): InsertEmotionRollup[] {
+  const buckets = new Map<number, InsertEmotionRollup>();
+
+  for (const sample of samples) {
+    // Frames without the subject say nothing about their emotions
+    if (sample.subjectPresent === false) continue;
+
+    const bucketStart = bucketStartOf(sample.timestamp, bucketSeconds);
+    let rollup = buckets.get(bucketStart.getTime());
+    if (!rollup) {
+      rollup = {
+        sessionId,
+        bucketSeconds,
+        bucketStart,
+        sampleCount: 0,
+        emotionSums: emptyEmotions(),
+        emotionMaxima: emptyEmotions(),
+        weightedEmotionSums: emptyEmotions(),
+        weightSum: 0,
+        confidenceSum: 0,
+        confidenceCount: 0,
+      };
+      buckets.set(bucketStart.getTime(), rollup);
+    }
+
+    const emotions = sample.emotions as Partial<EmotionData>;
+    const sums = rollup.emotionSums as EmotionData;
+    const maxima = rollup.emotionMaxima as EmotionData;
+    const weighted = rollup.weightedEmotionSums as EmotionData;
+    const weight = sampleWeight(sample.confidence);
+    for (const key of EMOTION_KEYS) {
+      const value = Number(emotions[key]) || 0;
+      sums[key] += value;
+      maxima[key] = Math.max(maxima[key], value);
+      weighted[key] += value * weight;
+    }
+    rollup.sampleCount++;
+    rollup.weightSum! += weight;
+    if (sample.confidence != null) {
+      rollup.confidenceSum! += sample.confidence;
+      rollup.confidenceCount!++;
+    }
+  }
+
+  return Array.from(buckets.values());
+}
+
+// Rollups for every tier
+export function rollUpForTiers(
+  sessionId: string,
+  samples: NewEmotionSample[],
+  tiers: RollupTier[]
+): InsertEmotionRollup[] {
+  return tiers.flatMap(tier => rollUpSamples(sessionId, samples, tier.bucketSeconds));
+}
+
+// Folds one rollup into another for the same bucket
+export function mergeRollups(target: EmotionRollup, addition: InsertEmotionRollup): EmotionRollup {
+  const sums = { ...(target.emotionSums as EmotionData) };
+  const maxima = { ...(target.emotionMaxima as EmotionData) };
+  const weighted = { ...(target.weightedEmotionSums as EmotionData) };
+  for (const key of EMOTION_KEYS) {
+    sums[key] = (sums[key] ?? 0) + (addition.emotionSums as EmotionData)[key];
+    maxima[key] = Math.max(maxima[key] ?? 0, (addition.emotionMaxima as EmotionData)[key]);
+    weighted[key] = (weighted[key] ?? 0) + ((addition.weightedEmotionSums as EmotionData | undefined)?.[key] ?? 0);
+  }
+  return {
+    ...target,
+    sampleCount: target.sampleCount + addition.sampleCount,
+    emotionSums: sums,
+    emotionMaxima: maxima,
+    weightedEmotionSums: weighted,
+    weightSum: target.weightSum + (addition.weightSum ?? 0),
+    confidenceSum: target.confidenceSum + (addition.confidenceSum ?? 0),
+    confidenceCount: target.confidenceCount + (addition.confidenceCount ?? 0),
+  };
+}
+
+// Confidence-weighted means; buckets whose samples all had zero confidence
+// fall back to the plain means
+export function rollupMeans(rollup: EmotionRollup): EmotionData {
+  const means = emptyEmotions();
+  const weighted = rollup.weightSum > 0;
+  const sums = (weighted ? rollup.weightedEmotionSums : rollup.emotionSums) as EmotionData;
+  const total = weighted ? rollup.weightSum : rollup.sampleCount;
+  for (const key of EMOTION_KEYS) {
+    means[key] = total > 0 ? (sums[key] ?? 0) / total : 0;
+  }
+  return means;
+}
+
+// Highest score of each emotion in the bucket
+export function rollupMaxima(rollup: EmotionRollup): EmotionData {
+  const maxima = emptyEmotions();
+  for (const key of EMOTION_KEYS) {
+    maxima[key] = (rollup.emotionMaxima as EmotionData)[key] ?? 0;
+  }
+  return maxima;
+}
+
+// A rollup as one reading for the shared smoothing, standing for its samples
+export function rollupReading(rollup: EmotionRollup): EmotionReading {
+  return {
+    emotions: rollupMeans(rollup),
+    timestamp: rollup.bucketStart.getTime(),
+    confidence: rollup.sampleCount > 0 ? (rollup.weightSum / rollup.sampleCount) * 100 : null,
+    count: rollup.sampleCount,
+  };
+}
+
+function emptyEmotions(): EmotionData {
+  return { happy: 0, sad: 0, angry: 0, surprised: 0, fearful: 0, disgusted: 0, neutral: 0 };
+}
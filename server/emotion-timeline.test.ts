@@ -0,0 +1,56 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { FIXTURE_IDS, loadFixtures } from "./fixtures";
+import { buildEmotionTimeline, EmotionTimelineError } from "./emotion-timeline";
+import { strongestEmotion } from "@shared/emotion-smoothing";
+import type { Session } from "@shared/schema";
+
+const { sessions } = FIXTURE_IDS;
+
+describe("buildEmotionTimeline", () => {
+  let session: Session;
+  let sampleCount: number;
+
+  before(async () => {
+    await loadFixtures(storage);
+    session = (await storage.getSession(sessions.laylaPast))!;
+    sampleCount = (await storage.getEmotionAnalysesBySession(session.id)).length;
+  });
+
+  it("puts every sample of the session into one aligned bucket", async () => {
+    for (const bucket of [1, 30, 60, 300]) {
+      const timeline = await buildEmotionTimeline(session, { bucket });
+
+      assert.equal(timeline.buckets.reduce((sum, b) => sum + b.sampleCount, 0), sampleCount, `bucket ${bucket}`);
+      for (const b of timeline.buckets) {
+        assert.equal(b.start.getTime() % (bucket * 1000), 0);
+      }
+    }
+  });
+
+  it("names each bucket's own strongest emotion", async () => {
+    const { buckets } = await buildEmotionTimeline(session, { bucket: 60 });
+
+    // The fixture session drifts from sadness to a neutral mood
+    assert.equal(buckets[0].dominantEmotion, "sad");
+    assert.equal(buckets[buckets.length - 1].dominantEmotion, "neutral");
+    for (const b of buckets) {
+      assert.equal(b.dominantEmotion, strongestEmotion(b.mean));
+    }
+  });
+
+  it("answers the same buckets for a range that starts later", async () => {
+    const whole = await buildEmotionTimeline(session, { bucket: 60 });
+    const later = await buildEmotionTimeline(session, { bucket: 60, from: whole.buckets[5].start });
+
+    assert.deepEqual(later.buckets, whole.buckets.slice(5));
+  });
+
+  it("refuses ranges with too many buckets", async () => {
+    await assert.rejects(
+      buildEmotionTimeline(session, { bucket: 1, from: new Date(0), to: session.endTime! }),
+      EmotionTimelineError
+    );
+  });
+});
@@ -0,0 +1,60 @@
+import { storage } from "./storage";
+import { bucketStartOf, rollupMaxima, rollupReading } from "./emotion-rollups";
+import { rollupTiers } from "./emotion-ingest";
+import { strongestEmotion } from "@shared/emotion-smoothing";
+import {
+  MAX_TIMELINE_BUCKETS,
+  type EmotionTimeline,
+  type EmotionTimelineQuery,
+  type Session,
+} from "@shared/schema";
+
+// Raised for timeline requests the stored rollups cannot answer
+export class EmotionTimelineError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EmotionTimelineError";
+  }
+}
+
+// A session's emotions in fixed time buckets over [from, to), aggregated in
+// storage from the coarsest rollup tier that divides the bucket size
+export async function buildEmotionTimeline(session: Session, query: EmotionTimelineQuery): Promise<EmotionTimeline> {
+  const bucketSeconds = query.bucket;
+  const sourceTier = rollupTiers
+    .filter(tier => bucketSeconds % tier.bucketSeconds === 0)
+    .sort((a, b) => b.bucketSeconds - a.bucketSeconds)[0];
+  if (!sourceTier) {
+    const finest = Math.min(...rollupTiers.map(tier => tier.bucketSeconds));
+    throw new EmotionTimelineError(`Bucket size must be a multiple of ${finest} seconds`);
+  }
+
+  const to = query.to ?? session.endTime ?? new Date();
+  const from = bucketStartOf(query.from ?? session.startTime ?? to, bucketSeconds);
+  if (to.getTime() - from.getTime() > MAX_TIMELINE_BUCKETS * bucketSeconds * 1000) {
+    throw new EmotionTimelineError(`Time range spans more than ${MAX_TIMELINE_BUCKETS} buckets`);
+  }
+
+  const rollups = await storage.aggregateEmotionRollups(session.id, {
+    sourceBucketSeconds: sourceTier.bucketSeconds,
+    bucketSeconds,
+    from,
+    to,
+  });
+
+  const buckets = rollups.map(rollup => {
+    const mean = rollupReading(rollup).emotions;
+    return {
+      start: rollup.bucketStart,
+      sampleCount: rollup.sampleCount,
+      mean,
+      max: rollupMaxima(rollup),
+      dominantEmotion: strongestEmotion(mean),
+      averageConfidence: rollup.confidenceCount > 0
+        ? Math.round(rollup.confidenceSum / rollup.confidenceCount)
+        : null,
+    };
+  });
+
+  return { bucketSeconds, from, to, buckets };
+}
@@ -0,0 +1,61 @@
+import type { Express } from "express";
+import { createHash } from "crypto";
+import { createRequire } from "module";
+import fs from "fs";
+import path from "path";
+import { FACE_MODEL_FILES, FACE_MODEL_PATH, FACE_MODEL_VERSION } from "@shared/face-models";
+
+// The model files never change under a versioned URL
+const MODEL_CACHE_MAX_AGE = "365d";
+
+// FACE_API_MODEL_DIR points at a directory holding the weights; by default
+// they come from the installed @vladmandic/face-api package
+function resolveModelDir(): string {
+  if (process.env.FACE_API_MODEL_DIR) {
+    return path.resolve(process.env.FACE_API_MODEL_DIR);
+  }
+  const require = createRequire(import.meta.url);
+  return path.join(path.dirname(require.resolve("@vladmandic/face-api/package.json")), "model");
+}
+
+// Hashes every pinned file once and keeps the paths of those that match
+async function verifyModelFiles(modelDir: string): Promise<Map<string, string>> {
+  const verified = new Map<string, string>();
+  for (const [file, expected] of Object.entries(FACE_MODEL_FILES)) {
+    const filePath = path.join(modelDir, file);
+    try {
+      const actual = createHash("sha256").update(await fs.promises.readFile(filePath)).digest("base64");
+      if (actual === expected) {
+        verified.set(file, filePath);
+      } else {
+        console.error(`❌ Face model ${file} does not match its pinned hash`);
+      }
+    } catch (error) {
+      console.error(`❌ Face model ${file} could not be read from ${modelDir}:`, error);
+    }
+  }
+  if (verified.size === Object.keys(FACE_MODEL_FILES).length) {
+    console.log(`🧠 Serving face-api models ${FACE_MODEL_VERSION} from ${modelDir}`);
+  }
+  return verified;
+}
+
+// Serves the face-api weights at /models/face-api/<version>/<file>, so the
+// camera works without reaching a third-party CDN
+export function serveFaceModels(app: Express) {
+  const modelDir = resolveModelDir();
+  const verification = verifyModelFiles(modelDir);
+
+  app.get(`${FACE_MODEL_PATH}/:version/:file`, async (req, res) => {
+    const { version, file } = req.params;
+    if (version !== FACE_MODEL_VERSION || !(file in FACE_MODEL_FILES)) {
+      return res.status(404).json({ error: "Model file not found" });
+    }
+
+    const filePath = (await verification).get(file);
+    if (!filePath) {
+      return res.status(500).json({ error: "Model file failed its integrity check" });
+    }
+    res.sendFile(filePath, { maxAge: MODEL_CACHE_MAX_AGE, immutable: true });
+  });
+}
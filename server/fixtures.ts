@@ -0,0 +1,173 @@
+import type { EmotionData, NewEmotionSample } from "@shared/schema";
+import type { IStorage, ImportRows } from "./storage";
+import { hashPassword } from "./passwords";
+import { readRollupTiers, rollUpForTiers } from "./emotion-rollups";
+
+export type Fixtures = ImportRows;
+
+type FixtureEmotionAnalysis = Fixtures["emotionAnalyses"][number];
+type FixtureChatMessage = Fixtures["chatMessages"][number];
+
+// Fixed ids keep the seed idempotent and let tests refer to known rows
+export const FIXTURE_IDS = {
+  users: {
+    layla: "00000000-0000-4000-8000-000000000001",
+    omar: "00000000-0000-4000-8000-000000000002",
+  },
+  sessions: {
+    laylaPast: "00000000-0000-4000-8000-000000000101",
+    laylaActive: "00000000-0000-4000-8000-000000000102",
+    omarPast: "00000000-0000-4000-8000-000000000103",
+  },
+} as const;
+
+// Development login for the fixture users (ليلى and عمر)
+export const FIXTURE_PASSWORD = "fixture-password";
+
+const MINUTE = 60 * 1000;
+const SAMPLE_INTERVAL_MS = 5000;
+
+function normalize(raw: EmotionData): EmotionData {
+  const total = Object.values(raw).reduce((sum, value) => sum + value, 0) || 1;
+  const result = { ...raw };
+  for (const key of Object.keys(result) as (keyof EmotionData)[]) {
+    result[key] = Math.round((result[key] / total) * 1000) / 10;
+  }
+  return result;
+}
+
+// Deterministic emotion curve drifting from one mood towards another
+function emotionTimeline(
+  sessionId: string,
+  start: Date,
+  durationMs: number,
+  from: keyof EmotionData,
+  to: keyof EmotionData,
+  age: number,
+  gender: string
+): FixtureEmotionAnalysis[] {
+  const rows: FixtureEmotionAnalysis[] = [];
+  const count = Math.floor(durationMs / SAMPLE_INTERVAL_MS);
+
+  for (let i = 0; i < count; i++) {
+    const progress = count > 1 ? i / (count - 1) : 0;
+    const wobble = (Math.sin(i / 3) + 1) * 5;
+    const raw: EmotionData = {
+      happy: 2, sad: 2, angry: 1, surprised: 1, fearful: 1, disgusted: 1, neutral: 20 + wobble
+    };
+    raw[from] += 60 * (1 - progress);
+    raw[to] += 60 * progress;
+
+    rows.push({
+      sessionId,
+      timestamp: new Date(start.getTime() + i * SAMPLE_INTERVAL_MS),
+      emotions: normalize(raw),
+      age,
+      gender,
+      confidence: 80 + (i % 15),
+    });
+  }
+
+  return rows;
+}
+
+export function buildFixtures(now: Date = new Date()): Fixtures {
+  const { users: userIds, sessions: sessionIds } = FIXTURE_IDS;
+  const laylaPastStart = new Date(now.getTime() - 2 * 24 * 60 * MINUTE);
+  const laylaActiveStart = new Date(now.getTime() - 10 * MINUTE);
+  const omarPastStart = new Date(now.getTime() - 26 * 60 * MINUTE);
+
+  const message = (
+    sessionId: string,
+    start: Date,
+    offsetMinutes: number,
+    isUser: boolean,
+    content: string,
+    emotionContext: EmotionData | null
+  ): FixtureChatMessage => ({
+    sessionId,
+    isUser,
+    content,
+    emotionContext,
+    timestamp: new Date(start.getTime() + offsetMinutes * MINUTE),
+  });
+
+  const sadMoment = normalize({ happy: 3, sad: 65, angry: 4, surprised: 2, fearful: 6, disgusted: 1, neutral: 19 });
+  const happyMoment = normalize({ happy: 70, sad: 3, angry: 1, surprised: 6, fearful: 1, disgusted: 1, neutral: 18 });
+  const angryMoment = normalize({ happy: 2, sad: 8, angry: 58, surprised: 3, fearful: 2, disgusted: 7, neutral: 20 });
+
+  const analyses = [
+    ...emotionTimeline(sessionIds.laylaPast, laylaPastStart, 15 * MINUTE, "sad", "neutral", 29, "female"),
+    ...emotionTimeline(sessionIds.laylaActive, laylaActiveStart, 10 * MINUTE, "neutral", "happy", 29, "female"),
+    ...emotionTimeline(sessionIds.omarPast, omarPastStart, 8 * MINUTE, "angry", "neutral", 34, "male"),
+  ];
+  const rollupTiers = readRollupTiers();
+
+  return {
+    users: [
+      {
+        id: userIds.layla, name: "ليلى", email: "layla@example.com",
+        age: 29, ageSource: "self_reported", gender: "female", genderSource: "self_reported",
+        createdAt: laylaPastStart,
+      },
+      {
+        id: userIds.omar, name: "عمر", email: null,
+        age: 34, ageSource: "model_estimated", ageConfidence: 62,
+        gender: "male", genderSource: "model_estimated", genderConfidence: 91,
+        createdAt: omarPastStart,
+      },
+    ],
+    sessions: [
+      {
+        id: sessionIds.laylaPast,
+        userId: userIds.layla,
+        startTime: laylaPastStart,
+        endTime: new Date(laylaPastStart.getTime() + 15 * MINUTE),
+        isActive: false,
+        lastActivityAt: new Date(laylaPastStart.getTime() + 15 * MINUTE),
+      },
+      {
+        id: sessionIds.laylaActive,
+        userId: userIds.layla,
+        startTime: laylaActiveStart,
+        endTime: null,
+        isActive: true,
+        lastActivityAt: now,
+      },
+      {
+        id: sessionIds.omarPast,
+        userId: userIds.omar,
+        startTime: omarPastStart,
+        endTime: new Date(omarPastStart.getTime() + 8 * MINUTE),
+        isActive: false,
+        lastActivityAt: new Date(omarPastStart.getTime() + 8 * MINUTE),
+      },
+    ],
+    emotionAnalyses: analyses,
+    emotionRollups: Object.values(sessionIds).flatMap(sessionId => rollUpForTiers(
+      sessionId,
+      analyses.filter(row => row.sessionId === sessionId) as NewEmotionSample[],
+      rollupTiers
+    )),
+    chatMessages: [
+      message(sessionIds.laylaPast, laylaPastStart, 1, true, "كان يومي سيئاً جداً في العمل", sadMoment),
+      message(sessionIds.laylaPast, laylaPastStart, 1.2, false, "أنا آسف لسماع ذلك 💙 هل تودين إخباري بما حدث؟", sadMoment),
+      message(sessionIds.laylaPast, laylaPastStart, 3, true, "مديري انتقد عملي أمام الجميع", sadMoment),
+      message(sessionIds.laylaPast, laylaPastStart, 3.2, false, "هذا موقف مؤلم فعلاً. من الطبيعي أن تشعري بالحزن، ويمكننا التفكير معاً في طريقة للتعامل معه.", sadMoment),
+      message(sessionIds.laylaActive, laylaActiveStart, 2, true, "اليوم أفضل بكثير، حصلت على تقدير من فريقي!", happyMoment),
+      message(sessionIds.laylaActive, laylaActiveStart, 2.2, false, "رائع! 🌟 يسعدني أن أسمع ذلك، كيف احتفلت بهذا الإنجاز؟", happyMoment),
+      message(sessionIds.omarPast, omarPastStart, 1, true, "الازدحام المروري أخرني ساعة كاملة", angryMoment),
+      message(sessionIds.omarPast, omarPastStart, 1.2, false, "أفهم انزعاجك 😕 تنفس بعمق، ماذا يمكن أن يساعدك الآن؟", angryMoment),
+    ],
+  };
+}
+
+// Works with either storage driver, so the in-memory one can start with the
+// same data as a seeded database
+export async function loadFixtures(storage: IStorage, fixtures: Fixtures = buildFixtures()): Promise<Record<keyof Fixtures, number>> {
+  const passwordHash = await hashPassword(FIXTURE_PASSWORD);
+  return storage.importRows({
+    ...fixtures,
+    users: fixtures.users.map(user => ({ passwordHash, isGuest: false, ...user })),
+  });
+}
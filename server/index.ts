@@ -1,6 +1,10 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { ensureStorageReady } from "./storage";
+import { credentialVault } from "./credentials";
+import { startIdleSessionReaper } from "./session-lifecycle";
+import { startEmotionRetention } from "./emotion-ingest";
 
 const app = express();
 app.use(express.json());
@@ -37,6 +41,10 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  await ensureStorageReady();
+  await credentialVault.load();
+  startIdleSessionReaper();
+  startEmotionRetention();
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
@@ -0,0 +1,20 @@
+import { createDb } from "./db";
+import { runMigrations } from "./migrations";
+
+if (!process.env.DATABASE_URL) {
+  throw new Error("DATABASE_URL, ensure the database is provisioned");
+}
+
+const { pool, db } = createDb(process.env.DATABASE_URL);
+
+(async () => {
+  try {
+    await runMigrations(db);
+    console.log("✅ Database migrations applied");
+  } finally {
+    await pool.end();
+  }
+})().catch(error => {
+  console.error("❌ Migration failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,50 @@
+import fs from "fs";
+import path from "path";
+import { sql } from "drizzle-orm";
+import { migrate } from "drizzle-orm/neon-serverless/migrator";
+import type { Database } from "./db";
+
+export const MIGRATIONS_FOLDER = path.resolve(process.cwd(), "migrations");
+
+interface JournalEntry {
+  idx: number;
+  when: number;
+  tag: string;
+}
+
+function readJournal(): JournalEntry[] {
+  const journalPath = path.join(MIGRATIONS_FOLDER, "meta", "_journal.json");
+  const journal = JSON.parse(fs.readFileSync(journalPath, "utf-8"));
+  return journal.entries as JournalEntry[];
+}
+
+export async function runMigrations(db: Database): Promise<void> {
+  await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+}
+
+// Compares the newest checked-in migration with the newest one recorded by
+// drizzle's migrator and refuses to continue when the database is behind.
+export async function assertSchemaUpToDate(db: Database): Promise<void> {
+  const entries = readJournal();
+  const latest = entries[entries.length - 1];
+  if (!latest) return;
+
+  let appliedAt = 0;
+  try {
+    const result = await db.execute<{ created_at: string | null }>(
+      sql`select max(created_at) as created_at from drizzle.__drizzle_migrations`
+    );
+    appliedAt = Number(result.rows[0]?.created_at ?? 0);
+  } catch {
+    // The migrations table does not exist yet, so nothing has been applied
+    appliedAt = 0;
+  }
+
+  if (appliedAt < latest.when) {
+    const pending = entries.filter(entry => entry.when > appliedAt).map(entry => entry.tag);
+    throw new Error(
+      `Database schema is out of date (pending migrations: ${pending.join(", ")}). ` +
+      `Run "npm run db:migrate" before starting the server.`
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { FIXTURE_IDS, loadFixtures } from "./fixtures";
+import { buildMoodTrends, MoodTrendError } from "./mood-trends";
+import { readRollupTiers, rollUpForTiers } from "./emotion-rollups";
+import type { EmotionData, NewEmotionSample } from "@shared/schema";
+
+const DAY = 24 * 60 * 60 * 1000;
+const SESSION_MS = 10 * 60 * 1000;
+const userId = "00000000-0000-4000-8000-000000000201";
+const firstDay = new Date("2026-03-02T00:00:00Z");
+
+// One ten-minute session at noon each day: five steady, mostly cheerful days,
+// then a sad one
+const days: EmotionData[] = [
+  { happy: 60, sad: 5, angry: 0, surprised: 5, fearful: 0, disgusted: 0, neutral: 30 },
+  { happy: 55, sad: 8, angry: 0, surprised: 5, fearful: 0, disgusted: 0, neutral: 32 },
+  { happy: 62, sad: 4, angry: 0, surprised: 4, fearful: 0, disgusted: 0, neutral: 30 },
+  { happy: 58, sad: 6, angry: 0, surprised: 6, fearful: 0, disgusted: 0, neutral: 30 },
+  { happy: 57, sad: 7, angry: 0, surprised: 6, fearful: 0, disgusted: 0, neutral: 30 },
+  { happy: 5, sad: 75, angry: 0, surprised: 0, fearful: 5, disgusted: 0, neutral: 15 },
+];
+
+async function loadTrendUser() {
+  const sessionRows = days.map((_, i) => {
+    const startTime = new Date(firstDay.getTime() + i * DAY + DAY / 2);
+    return {
+      id: `00000000-0000-4000-8000-0000000003${String(i).padStart(2, "0")}`,
+      userId,
+      startTime,
+      endTime: new Date(startTime.getTime() + SESSION_MS),
+      isActive: false,
+    };
+  });
+  const samples: NewEmotionSample[] = sessionRows.flatMap((session, i) =>
+    Array.from({ length: 10 }, (_, j) => ({
+      sessionId: session.id,
+      timestamp: new Date(session.startTime.getTime() + j * 60 * 1000),
+      emotions: days[i],
+      confidence: 90,
+    }))
+  );
+  const tiers = readRollupTiers();
+
+  await storage.importRows({
+    users: [{ id: userId, name: "trend-user", isGuest: false }],
+    sessions: sessionRows,
+    emotionAnalyses: samples,
+    emotionRollups: sessionRows.flatMap(session =>
+      rollUpForTiers(session.id, samples.filter(sample => sample.sessionId === session.id), tiers)
+    ),
+    chatMessages: [],
+  });
+}
+
+describe("buildMoodTrends", () => {
+  before(async () => {
+    await loadFixtures(storage);
+    await loadTrendUser();
+  });
+
+  it("reports each day's sessions and samples", async () => {
+    const { periods } = await buildMoodTrends(userId, {
+      period: "day",
+      from: firstDay,
+      to: new Date(firstDay.getTime() + days.length * DAY),
+      utcOffset: 0,
+    });
+
+    assert.equal(periods.length, days.length);
+    for (const period of periods) {
+      assert.equal(period.sessionCount, 1);
+      assert.equal(period.totalSessionSeconds, SESSION_MS / 1000);
+      assert.equal(period.sampleCount, 10);
+    }
+    assert.equal(periods[5].dominantEmotion, "sad");
+  });
+
+  it("flags a shift only once enough earlier days form a baseline", async () => {
+    const { periods } = await buildMoodTrends(userId, {
+      period: "day",
+      from: firstDay,
+      to: new Date(firstDay.getTime() + days.length * DAY),
+      utcOffset: 0,
+    });
+
+    // Days one to three have no baseline yet, and the next two stay close to it
+    assert.deepEqual(periods.slice(0, 5).map(period => period.shift), [null, null, null, null, null]);
+    assert.equal(periods[5].shift?.direction, "negative");
+    assert.equal(periods[5].shift?.emotion, "sad");
+    assert.ok(periods[5].shift!.zScore <= -2);
+  });
+
+  it("uses days before the requested range for the baseline", async () => {
+    const lastDay = new Date(firstDay.getTime() + 5 * DAY);
+    const { periods } = await buildMoodTrends(userId, {
+      period: "day",
+      from: lastDay,
+      to: new Date(lastDay.getTime() + DAY),
+      utcOffset: 0,
+    });
+
+    assert.equal(periods.length, 1);
+    assert.equal(periods[0].shift?.direction, "negative");
+  });
+
+  it("starts days at the user's midnight", async () => {
+    // At UTC+14 each noon session falls on the next local day
+    const { periods } = await buildMoodTrends(userId, {
+      period: "day",
+      from: new Date(firstDay.getTime() - 14 * 60 * 60 * 1000),
+      to: new Date(firstDay.getTime() + DAY - 14 * 60 * 60 * 1000),
+      utcOffset: 14 * 60,
+    });
+
+    assert.equal(periods[0].start.toISOString(), "2026-03-01T10:00:00.000Z");
+    assert.equal(periods[0].sessionCount, 0);
+  });
+
+  it("counts the fixture user's sessions", async () => {
+    const { periods } = await buildMoodTrends(FIXTURE_IDS.users.layla, { period: "week", utcOffset: 0 });
+
+    assert.equal(periods.reduce((sum, period) => sum + period.sessionCount, 0), 2);
+  });
+
+  it("refuses ranges with too many periods", async () => {
+    await assert.rejects(
+      buildMoodTrends(userId, { period: "day", from: new Date(0), to: firstDay, utcOffset: 0 }),
+      MoodTrendError
+    );
+  });
+});
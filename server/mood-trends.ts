@@ -0,0 +1,174 @@
+import { storage } from "./storage";
+import { bucketStartOf, mergeRollups, rollupMeans } from "./emotion-rollups";
+import { summaryTier } from "./emotion-ingest";
+import { strongestEmotion } from "@shared/emotion-smoothing";
+import {
+  EMOTION_KEYS,
+  MAX_TREND_PERIODS,
+  type EmotionData,
+  type EmotionRollup,
+  type MoodShift,
+  type MoodTrendPeriod,
+  type MoodTrendQuery,
+  type MoodTrends,
+} from "@shared/schema";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const PERIOD_SECONDS = { day: DAY_SECONDS, week: 7 * DAY_SECONDS };
+// Weeks start on Monday; 1970-01-05 was one
+const WEEK_ORIGIN_MS = 4 * DAY_SECONDS * 1000;
+// Ranges shown when the request gives no start
+const DEFAULT_PERIODS = { day: 30, week: 12 };
+
+// How pleasant each emotion is; valence is the mean of these weighted by the
+// emotion scores
+const VALENCE_WEIGHTS: EmotionData = {
+  happy: 1, surprised: 0, neutral: 0, sad: -1, angry: -1, fearful: -1, disgusted: -1
+};
+
+// A period is compared with the user's periods this far before it. At least
+// MIN_BASELINE_PERIODS of them need samples for a baseline.
+const BASELINE_PERIODS = { day: 28, week: 12 };
+const MIN_BASELINE_PERIODS = 3;
+// A shift is flagged this many standard deviations from the baseline, and
+// only if the valence also moved by MIN_SHIFT
+const SHIFT_Z_SCORE = 2;
+const MIN_SHIFT = 0.1;
+// Keeps a very steady baseline from flagging every small change
+const MIN_BASELINE_DEVIATION = 0.05;
+
+// Raised for trend requests the stored rollups cannot answer
+export class MoodTrendError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MoodTrendError";
+  }
+}
+
+function valenceOf(emotions: EmotionData): number | null {
+  let weighted = 0;
+  let total = 0;
+  for (const key of EMOTION_KEYS) {
+    weighted += VALENCE_WEIGHTS[key] * emotions[key];
+    total += emotions[key];
+  }
+  return total > 0 ? weighted / total : null;
+}
+
+// A user's sessions and emotions per day or week, from the summary tier's
+// rollups of all their sessions. Each period's valence is compared with the
+// periods before it, including ones before `from`.
+export async function buildMoodTrends(userId: string, query: MoodTrendQuery): Promise<MoodTrends> {
+  const periodSeconds = PERIOD_SECONDS[query.period];
+  if (periodSeconds % summaryTier.bucketSeconds !== 0) {
+    throw new MoodTrendError(`Rollups of ${summaryTier.bucketSeconds} seconds do not fit into a ${query.period}`);
+  }
+
+  const periodMs = periodSeconds * 1000;
+  const origin = new Date((query.period === "week" ? WEEK_ORIGIN_MS : 0) - query.utcOffset * 60 * 1000);
+  const to = query.to ?? new Date();
+  const from = bucketStartOf(query.from ?? new Date(to.getTime() - DEFAULT_PERIODS[query.period] * periodMs), periodSeconds, origin);
+  if (to.getTime() - from.getTime() > MAX_TREND_PERIODS * periodMs) {
+    throw new MoodTrendError(`Time range spans more than ${MAX_TREND_PERIODS} periods`);
+  }
+  const baselineFrom = new Date(from.getTime() - BASELINE_PERIODS[query.period] * periodMs);
+
+  const [rollups, userSessions] = await Promise.all([
+    storage.aggregateUserEmotionRollups(userId, {
+      sourceBucketSeconds: summaryTier.bucketSeconds,
+      bucketSeconds: periodSeconds,
+      from: baselineFrom,
+      to,
+      origin,
+    }),
+    storage.getSessionsByUserIdInRange(userId, from, to),
+  ]);
+
+  // Rows come per session and period; merged per period
+  const merged = new Map<number, EmotionRollup>();
+  for (const rollup of rollups) {
+    const existing = merged.get(rollup.bucketStart.getTime());
+    merged.set(rollup.bucketStart.getTime(), existing ? mergeRollups(existing, rollup) : rollup);
+  }
+
+  const periods: MoodTrendPeriod[] = [];
+  for (let start = from.getTime(); start < to.getTime(); start += periodMs) {
+    const rollup = merged.get(start);
+    const mean = rollup && rollup.sampleCount > 0 ? rollupMeans(rollup) : null;
+    const valence = mean && valenceOf(mean);
+    const shift = mean && valence !== null
+      ? detectShift(mean, valence, baselineOf(merged, start, periodMs, query.period))
+      : null;
+    const sessionSeconds = userSessions
+      .filter(session => bucketStartOf(session.startTime!, periodSeconds, origin).getTime() === start)
+      .map(session => {
+        const end = session.endTime ?? session.lastActivityAt ?? session.startTime!;
+        return Math.max(0, (end.getTime() - session.startTime!.getTime()) / 1000);
+      });
+    const totalSessionSeconds = Math.round(sessionSeconds.reduce((sum, seconds) => sum + seconds, 0));
+
+    periods.push({
+      start: new Date(start),
+      sessionCount: sessionSeconds.length,
+      totalSessionSeconds,
+      averageSessionSeconds: sessionSeconds.length > 0 ? Math.round(totalSessionSeconds / sessionSeconds.length) : null,
+      sampleCount: rollup?.sampleCount ?? 0,
+      mean,
+      valence: valence === null ? null : round(valence, 3),
+      dominantEmotion: mean && strongestEmotion(mean),
+      shift,
+    });
+  }
+
+  return { period: query.period, from, to, periods };
+}
+
+interface Baseline {
+  valence: number;
+  deviation: number;
+  mean: EmotionData;
+}
+
+// Valence and emotions of the periods with samples before `start`
+function baselineOf(
+  merged: Map<number, EmotionRollup>,
+  start: number,
+  periodMs: number,
+  period: MoodTrendQuery["period"]
+): Baseline | null {
+  const means: EmotionData[] = [];
+  for (let i = 1; i <= BASELINE_PERIODS[period]; i++) {
+    const rollup = merged.get(start - i * periodMs);
+    if (rollup && rollup.sampleCount > 0) means.push(rollupMeans(rollup));
+  }
+  const valences = means.map(valenceOf).filter((valence): valence is number => valence !== null);
+  if (valences.length < MIN_BASELINE_PERIODS) return null;
+
+  const valence = valences.reduce((sum, v) => sum + v, 0) / valences.length;
+  const variance = valences.reduce((sum, v) => sum + (v - valence) ** 2, 0) / (valences.length - 1);
+  const mean = Object.fromEntries(
+    EMOTION_KEYS.map(key => [key, means.reduce((sum, m) => sum + m[key], 0) / means.length])
+  ) as EmotionData;
+  return { valence, deviation: Math.max(Math.sqrt(variance), MIN_BASELINE_DEVIATION), mean };
+}
+
+function detectShift(mean: EmotionData, valence: number, baseline: Baseline | null): MoodShift | null {
+  if (!baseline) return null;
+  const zScore = (valence - baseline.valence) / baseline.deviation;
+  if (Math.abs(zScore) < SHIFT_Z_SCORE || Math.abs(valence - baseline.valence) < MIN_SHIFT) return null;
+
+  const emotion = EMOTION_KEYS.reduce((furthest, key) =>
+    Math.abs(mean[key] - baseline.mean[key]) > Math.abs(mean[furthest] - baseline.mean[furthest]) ? key : furthest
+  );
+  return {
+    direction: zScore > 0 ? "positive" : "negative",
+    zScore: round(zScore, 2),
+    baselineValence: round(baseline.valence, 3),
+    emotion,
+  };
+}
+
+function round(value: number, digits: number): number {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+}
@@ -0,0 +1,37 @@
+export type ProviderErrorKind =
+  | "auth"           // missing, invalid or revoked credentials
+  | "rate_limit"     // quota exhausted or too many requests
+  | "timeout"        // the provider did not answer in time
+  | "unavailable"    // network failure or 5xx from the provider
+  | "bad_request"    // the provider rejected the request itself
+  | "not_configured" // no credentials or endpoint set up for the provider
+  | "unknown";
+
+// Typed failure raised by AI providers so the manager can decide whether to
+// retry, fall back or surface a configuration problem.
+export class ProviderError extends Error {
+  constructor(
+    public readonly provider: string,
+    public readonly kind: ProviderErrorKind,
+    message: string,
+    public readonly status?: number,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "ProviderError";
+  }
+
+  // Transient failures that may succeed if tried again later
+  get retryable(): boolean {
+    return this.kind === "rate_limit" || this.kind === "timeout" || this.kind === "unavailable";
+  }
+}
+
+export function providerErrorKindFromStatus(status: number): ProviderErrorKind {
+  if (status === 401 || status === 403) return "auth";
+  if (status === 429) return "rate_limit";
+  if (status === 408) return "timeout";
+  if (status >= 500) return "unavailable";
+  if (status >= 400) return "bad_request";
+  return "unknown";
+}
@@ -0,0 +1,118 @@
+import { ProviderError, type ProviderErrorKind } from "./provider-errors";
+
+// Upper bounds (ms) of the latency histogram buckets; the last bucket is open-ended
+export const LATENCY_BUCKETS_MS = [250, 500, 1000, 2000, 5000, 10000, 20000, 60000];
+
+export interface LatencyHistogram {
+  // `le` is the bucket's inclusive upper bound, null for the overflow bucket
+  buckets: Array<{ le: number | null; count: number }>;
+  count: number;
+  sumMs: number;
+  meanMs: number | null;
+  p50Ms: number | null;
+  p95Ms: number | null;
+}
+
+export interface ProviderTelemetrySnapshot {
+  successCount: number;
+  errorCount: number;
+  errorsByKind: Partial<Record<ProviderErrorKind, number>>;
+  latency: LatencyHistogram;
+  lastSuccessAt: string | null;
+  lastError: { message: string; kind: ProviderErrorKind; at: string } | null;
+}
+
+class ProviderStats {
+  private bucketCounts: number[] = new Array(LATENCY_BUCKETS_MS.length + 1).fill(0);
+  private sumMs = 0;
+  successCount = 0;
+  errorCount = 0;
+  errorsByKind: Partial<Record<ProviderErrorKind, number>> = {};
+  lastSuccessAt: Date | null = null;
+  lastError: { message: string; kind: ProviderErrorKind; at: Date } | null = null;
+
+  observeLatency(latencyMs: number) {
+    const index = LATENCY_BUCKETS_MS.findIndex(bound => latencyMs <= bound);
+    this.bucketCounts[index === -1 ? LATENCY_BUCKETS_MS.length : index]++;
+    this.sumMs += latencyMs;
+  }
+
+  // Percentiles are read off the histogram, so they resolve to a bucket bound
+  private percentile(count: number, fraction: number): number | null {
+    if (count === 0) return null;
+    const rank = Math.ceil(count * fraction);
+    let seen = 0;
+    for (let i = 0; i < this.bucketCounts.length; i++) {
+      seen += this.bucketCounts[i];
+      if (seen >= rank) {
+        return LATENCY_BUCKETS_MS[i] ?? LATENCY_BUCKETS_MS[LATENCY_BUCKETS_MS.length - 1];
+      }
+    }
+    return null;
+  }
+
+  snapshot(): ProviderTelemetrySnapshot {
+    const count = this.bucketCounts.reduce((sum, value) => sum + value, 0);
+    return {
+      successCount: this.successCount,
+      errorCount: this.errorCount,
+      errorsByKind: { ...this.errorsByKind },
+      latency: {
+        buckets: this.bucketCounts.map((bucketCount, i) => ({
+          le: LATENCY_BUCKETS_MS[i] ?? null,
+          count: bucketCount,
+        })),
+        count,
+        sumMs: Math.round(this.sumMs),
+        meanMs: count > 0 ? Math.round(this.sumMs / count) : null,
+        p50Ms: this.percentile(count, 0.5),
+        p95Ms: this.percentile(count, 0.95),
+      },
+      lastSuccessAt: this.lastSuccessAt?.toISOString() ?? null,
+      lastError: this.lastError && {
+        message: this.lastError.message,
+        kind: this.lastError.kind,
+        at: this.lastError.at.toISOString(),
+      },
+    };
+  }
+}
+
+// In-process counters fed by every provider call the manager makes. They reset
+// when the server restarts.
+export class ProviderTelemetry {
+  private stats: Map<string, ProviderStats> = new Map();
+
+  private get(providerId: string): ProviderStats {
+    let stats = this.stats.get(providerId);
+    if (!stats) {
+      stats = new ProviderStats();
+      this.stats.set(providerId, stats);
+    }
+    return stats;
+  }
+
+  recordSuccess(providerId: string, latencyMs: number) {
+    const stats = this.get(providerId);
+    stats.observeLatency(latencyMs);
+    stats.successCount++;
+    stats.lastSuccessAt = new Date();
+  }
+
+  recordFailure(providerId: string, latencyMs: number, error: unknown) {
+    const stats = this.get(providerId);
+    const kind: ProviderErrorKind = error instanceof ProviderError ? error.kind : "unknown";
+    stats.observeLatency(latencyMs);
+    stats.errorCount++;
+    stats.errorsByKind[kind] = (stats.errorsByKind[kind] ?? 0) + 1;
+    stats.lastError = {
+      message: error instanceof Error ? error.message : String(error),
+      kind,
+      at: new Date(),
+    };
+  }
+
+  snapshot(providerId: string): ProviderTelemetrySnapshot {
+    return this.get(providerId).snapshot();
+  }
+}
@@ -2,41 +2,177 @@ import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
-  insertUserSchema, 
-  insertSessionSchema, 
   insertEmotionAnalysisSchema,
   insertChatMessageSchema,
-  type EmotionData
+  sessionProviderSchema,
+  providerCredentialSchema,
+  updateUserProfileSchema,
+  deleteAccountSchema,
+  sessionListQuerySchema,
+  emotionBatchSchema,
+  emotionTimelineQuerySchema,
+  moodTrendQuerySchema,
+  sessionExportQuerySchema,
+  type EmotionData,
+  type Session,
+  type ChatStreamEvent
 } from "@shared/schema";
-import { aiProviderManager } from "./ai-providers";
+import { aiProviderManager, type ProviderRouting } from "./ai-providers";
+import { buildConversationContext } from "./conversation-memory";
+import { ProviderError } from "./provider-errors";
+import { credentialVault, isCredentialStorageEnabled } from "./credentials";
+import { requireAdmin } from "./admin-auth";
+import { setupAuth, requireAuth, requireSessionOwner, getOwnedSession, toPublicUser } from "./auth";
+import { recordSessionActivity } from "./session-lifecycle";
+import { ingestEmotionSamples, EmotionSampleTimeError, summaryTier } from "./emotion-ingest";
+import { rollupMeans, rollupReading } from "./emotion-rollups";
+import { summarizeDominantEmotion } from "@shared/emotion-smoothing";
+import { serveFaceModels } from "./face-models";
+import { buildEmotionTimeline, EmotionTimelineError } from "./emotion-timeline";
+import { buildMoodTrends, MoodTrendError } from "./mood-trends";
+import { exportConversationJson, exportReportHtml, exportSamplesCsv } from "./session-export";
+import { exportUserData } from "./user-data";
+import { verifyPassword } from "./passwords";
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  
-  // Create or get user
-  app.post("/api/users", async (req, res) => {
+  // Signup, login, guest accounts and the cookie session (/api/auth/*)
+  setupAuth(app);
+
+  // Pinned face-api weights for the camera (/models/face-api/*)
+  serveFaceModels(app);
+
+  const ownsParamSession = requireSessionOwner(req => req.params.id ?? req.params.sessionId);
+  const ownsBodySession = requireSessionOwner(req => req.body?.sessionId);
+
+  // Profile of the logged-in user. Other users are reported as missing, like
+  // sessions, so their ids cannot be probed.
+  app.get("/api/users/:id", requireAuth, async (req, res) => {
+    if (req.params.id !== req.user!.id) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json(toPublicUser(req.user!));
+  });
+
+  // Update age and gender, either as entered by the user or as estimated from
+  // the camera with a confidence; estimates never replace self-reported values
+  app.patch("/api/users/:id", requireAuth, async (req, res) => {
+    if (req.params.id !== req.user!.id) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const parsed = updateUserProfileSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid profile data" });
+    }
+
     try {
-      const userData = insertUserSchema.parse(req.body);
-      
-      // Check if user already exists
-      const existingUser = await storage.getUserByName(userData.name);
-      if (existingUser) {
-        return res.json(existingUser);
+      const user = await storage.updateUserProfile(req.user!.id, parsed.data);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
       }
-      
-      const user = await storage.createUser(userData);
-      res.json(user);
+      res.json(toPublicUser(user));
     } catch (error) {
-      res.status(400).json({ error: "Invalid user data" });
+      res.status(500).json({ error: "Failed to update profile" });
     }
   });
 
-  // Create session
-  app.post("/api/sessions", async (req, res) => {
+  // Everything stored about the user, as a JSON download
+  app.get("/api/users/:id/export", requireAuth, async (req, res) => {
+    if (req.params.id !== req.user!.id) {
+      return res.status(404).json({ error: "User not found" });
+    }
+
     try {
-      const sessionData = insertSessionSchema.parse(req.body);
-      
+      const data = await exportUserData(req.user!);
+      res.attachment(`user-${req.user!.id}-data.json`);
+      res.send(JSON.stringify(data, null, 2));
+    } catch (error) {
+      console.error("User data export error:", error);
+      res.status(500).json({ error: "Failed to export user data" });
+    }
+  });
+
+  // Erases the account with all its sessions, emotions and messages, then
+  // logs out. Registered accounts confirm with their password. Only an audit
+  // row with counts is kept.
+  app.delete("/api/users/:id", requireAuth, async (req, res, next) => {
+    if (req.params.id !== req.user!.id) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const parsed = deleteAccountSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid deletion request" });
+    }
+
+    const user = req.user!;
+    if (user.passwordHash && !(await verifyPassword(parsed.data.password ?? "", user.passwordHash))) {
+      return res.status(403).json({ error: "كلمة المرور غير صحيحة" });
+    }
+
+    try {
+      const audit = await storage.deleteUser(user.id);
+      if (!audit) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      console.log(`🗑️ Erased an account with ${audit.sessionCount} sessions`);
+      req.logout(error => {
+        if (error) return next(error);
+        req.session.destroy(() => res.status(204).end());
+      });
+    } catch (error) {
+      console.error("Account deletion error:", error);
+      res.status(500).json({ error: "Failed to delete account" });
+    }
+  });
+
+  // The user's sessions, newest first, `limit` (max 100) at a time from `offset`
+  app.get("/api/users/:id/sessions", requireAuth, async (req, res) => {
+    if (req.params.id !== req.user!.id) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const parsed = sessionListQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid pagination parameters" });
+    }
+
+    const page = parsed.data;
+    try {
+      const { sessions, total } = await storage.listSessionsByUserId(req.user!.id, page);
+      res.json({ sessions, total, limit: page.limit, offset: page.offset });
+    } catch (error) {
+      console.error("Session list error:", error);
+      res.status(500).json({ error: "Failed to list sessions" });
+    }
+  });
+
+  // The user's mood per day or week across sessions, with shifts from their
+  // own baseline flagged
+  app.get("/api/users/:id/trends", requireAuth, async (req, res) => {
+    if (req.params.id !== req.user!.id) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const parsed = moodTrendQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid trend parameters", issues: parsed.error.issues });
+    }
+
+    try {
+      res.json(await buildMoodTrends(req.user!.id, parsed.data));
+    } catch (error) {
+      if (error instanceof MoodTrendError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Mood trends error:", error);
+      res.status(500).json({ error: "Failed to load mood trends" });
+    }
+  });
+
+  // Create a session for the logged-in user
+  app.post("/api/sessions", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+
       // End any existing active session for this user
-      const existingSession = await storage.getActiveSessionByUserId(sessionData.userId!);
+      const existingSession = await storage.getActiveSessionByUserId(userId);
       if (existingSession) {
         await storage.updateSession(existingSession.id, { 
           isActive: false, 
@@ -44,146 +180,377 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const session = await storage.createSession(sessionData);
+      const session = await storage.createSession({ userId });
       res.json(session);
     } catch (error) {
       res.status(400).json({ error: "Invalid session data" });
     }
   });
 
+  // The logged-in user's active session, or null when there is none
+  app.get("/api/sessions/active", requireAuth, async (req, res) => {
+    try {
+      const session = await storage.getActiveSessionByUserId(req.user!.id);
+      res.json(session ?? null);
+    } catch (error) {
+      console.error("Active session error:", error);
+      res.status(500).json({ error: "Failed to load active session" });
+    }
+  });
+
   // Get session
-  app.get("/api/sessions/:id", async (req, res) => {
-    const session = await storage.getSession(req.params.id);
-    if (!session) {
-      return res.status(404).json({ error: "Session not found" });
+  app.get("/api/sessions/:id", ownsParamSession, async (req, res) => {
+    res.json(getOwnedSession(res));
+  });
+
+  // End a session; ending an already ended session is a no-op. Closed tabs
+  // are not reported (a reload looks the same), the idle reaper ends those.
+  app.post("/api/sessions/:id/end", ownsParamSession, async (req, res) => {
+    const session = getOwnedSession(res);
+    if (!session.isActive) {
+      return res.json(session);
+    }
+    try {
+      const ended = await storage.updateSession(session.id, {
+        isActive: false,
+        endTime: new Date()
+      });
+      res.json(ended);
+    } catch (error) {
+      console.error("End session error:", error);
+      res.status(500).json({ error: "Failed to end session" });
+    }
+  });
+
+  // Make an earlier session the active one again, ending whichever session
+  // was active, so the conversation continues where it stopped
+  app.post("/api/sessions/:id/resume", ownsParamSession, async (req, res) => {
+    const session = getOwnedSession(res);
+    try {
+      const activeSession = await storage.getActiveSessionByUserId(req.user!.id);
+      if (activeSession && activeSession.id !== session.id) {
+        await storage.updateSession(activeSession.id, {
+          isActive: false,
+          endTime: new Date()
+        });
+      }
+
+      const resumed = await storage.updateSession(session.id, {
+        isActive: true,
+        endTime: null,
+        lastActivityAt: new Date()
+      });
+      res.json(resumed);
+    } catch (error) {
+      res.status(500).json({ error: "Failed to resume session" });
+    }
+  });
+
+  // Pin a session to one AI provider, optionally allowing fallback to others
+  app.put("/api/sessions/:id/provider", ownsParamSession, async (req, res) => {
+    const parsed = sessionProviderSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid provider settings" });
+    }
+
+    const { providerId, allowFallback } = parsed.data;
+    if (providerId && !aiProviderManager.getProvider(providerId)) {
+      return res.status(400).json({ error: `Unknown provider: ${providerId}` });
+    }
+
+    try {
+      const session = await storage.updateSession(req.params.id, {
+        pinnedProviderId: providerId,
+        allowProviderFallback: allowFallback
+      });
+      if (!session) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+      res.json(session);
+    } catch (error) {
+      console.error("Session provider error:", error);
+      res.status(500).json({ error: "Failed to update session provider" });
     }
-    res.json(session);
   });
 
   // Save emotion analysis
-  app.post("/api/emotions", async (req, res) => {
+  app.post("/api/emotions", ownsBodySession, recordSessionActivity, async (req, res) => {
     try {
       const emotionData = insertEmotionAnalysisSchema.parse(req.body);
-      const analysis = await storage.createEmotionAnalysis(emotionData);
+      const [analysis] = await ingestEmotionSamples(getOwnedSession(res), [{
+        timestamp: new Date(),
+        emotions: emotionData.emotions as EmotionData,
+        age: emotionData.age ?? undefined,
+        gender: emotionData.gender ?? undefined,
+        confidence: emotionData.confidence ?? undefined
+      }]);
       res.json(analysis);
     } catch (error) {
       res.status(400).json({ error: "Invalid emotion data" });
     }
   });
 
+  // Save a batch of timestamped samples (see emotionBatchSchema). Timestamps
+  // are shifted by the difference between the server clock and `sentAt`.
+  app.post("/api/emotions/batch", ownsBodySession, recordSessionActivity, async (req, res) => {
+    const parsed = emotionBatchSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid emotion batch", issues: parsed.error.issues });
+    }
+
+    const { samples, sentAt } = parsed.data;
+    const clockOffsetMs = sentAt ? Date.now() - sentAt.getTime() : 0;
+    try {
+      const saved = await ingestEmotionSamples(getOwnedSession(res), samples, clockOffsetMs);
+      res.status(201).json({ saved: saved.length });
+    } catch (error) {
+      if (error instanceof EmotionSampleTimeError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Emotion batch error:", error);
+      res.status(500).json({ error: "Failed to save emotion samples" });
+    }
+  });
+
   // Get emotion analyses for session
-  app.get("/api/sessions/:sessionId/emotions", async (req, res) => {
-    const analyses = await storage.getEmotionAnalysesBySession(req.params.sessionId);
-    res.json(analyses);
+  app.get("/api/sessions/:sessionId/emotions", ownsParamSession, async (req, res) => {
+    try {
+      const analyses = await storage.getEmotionAnalysesBySession(req.params.sessionId);
+      res.json(analyses);
+    } catch (error) {
+      console.error("Emotion list error:", error);
+      res.status(500).json({ error: "Failed to load emotion analyses" });
+    }
+  });
+
+  // Emotions in `bucket`-second buckets between `from` and `to` (the whole
+  // session by default): mean, maximum, dominant emotion and sample count
+  app.get("/api/sessions/:sessionId/timeline", ownsParamSession, async (req, res) => {
+    const parsed = emotionTimelineQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid timeline parameters", issues: parsed.error.issues });
+    }
+
+    try {
+      res.json(await buildEmotionTimeline(getOwnedSession(res), parsed.data));
+    } catch (error) {
+      if (error instanceof EmotionTimelineError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Emotion timeline error:", error);
+      res.status(500).json({ error: "Failed to load emotion timeline" });
+    }
   });
 
   // Send chat message with AI response
-  app.post("/api/chat", async (req, res) => {
+  app.post("/api/chat", ownsBodySession, recordSessionActivity, async (req, res) => {
     try {
       const messageData = insertChatMessageSchema.parse(req.body);
       
-      // Save user message
-      const userMessage = await storage.createChatMessage(messageData);
+      // Earlier turns of this session, loaded before the new message is stored
+      const history = await storage.getChatMessagesBySession(getOwnedSession(res).id);
+      const conversation = buildConversationContext(history);
+      const routing = getSessionRouting(getOwnedSession(res));
       
       // Generate AI response with emotional context
       const emotionContext = messageData.emotionContext as EmotionData;
       const { response: aiResponse, provider } = await aiProviderManager.generateResponse(
         messageData.content, 
-        emotionContext
+        emotionContext,
+        conversation,
+        routing
       );
       
       console.log(`AI response generated by: ${provider}`);
       
+      // The user message is only saved along with a reply, so a failed
+      // request leaves no unanswered user turn in the history
+      const userMessage = await storage.createChatMessage({ ...messageData, provider: null });
+      
       // Save AI response
       const aiMessage = await storage.createChatMessage({
         sessionId: messageData.sessionId,
         isUser: false,
         content: aiResponse,
-        emotionContext: emotionContext
+        emotionContext: emotionContext,
+        provider
       });
       
       res.json({ userMessage, aiMessage, provider });
     } catch (error) {
       console.error("Chat error:", error);
+      // A session pinned without fallback reports its provider's failure
+      if (error instanceof ProviderError) {
+        return res.status(502).json({ error: error.message, kind: error.kind });
+      }
       res.status(500).json({ error: "Failed to process chat message" });
     }
   });
 
+  // Send chat message and stream the AI response as Server-Sent Events (see
+  // ChatStreamEvent): `chunk` ({ text }), `restart` (discard the partial text,
+  // another provider takes over), then `user` (the saved user message) and
+  // `done` ({ aiMessage, provider }), or `error` ({ error }). As with /api/chat,
+  // nothing is saved unless the reply completes.
+  app.post("/api/chat/stream", ownsBodySession, recordSessionActivity, async (req, res) => {
+    const parsed = insertChatMessageSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid chat message" });
+    }
+    const messageData = parsed.data;
+
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no"
+    });
+
+    const send = ({ event, data }: ChatStreamEvent) => {
+      if (!res.writableEnded) {
+        res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      }
+    };
+
+    try {
+      const history = await storage.getChatMessagesBySession(getOwnedSession(res).id);
+      const conversation = buildConversationContext(history);
+      const routing = getSessionRouting(getOwnedSession(res));
+
+      const emotionContext = messageData.emotionContext as EmotionData;
+      const { response: aiResponse, provider } = await aiProviderManager.streamResponse(
+        messageData.content,
+        emotionContext,
+        conversation,
+        {
+          onChunk: text => send({ event: "chunk", data: { text } }),
+          onRestart: () => send({ event: "restart", data: {} })
+        },
+        routing
+      );
+
+      console.log(`AI response streamed by: ${provider}`);
+
+      // Persisted even if the client went away mid-stream
+      const userMessage = await storage.createChatMessage({ ...messageData, provider: null });
+      send({ event: "user", data: userMessage });
+      const aiMessage = await storage.createChatMessage({
+        sessionId: messageData.sessionId,
+        isUser: false,
+        content: aiResponse,
+        emotionContext: emotionContext,
+        provider
+      });
+
+      send({ event: "done", data: { aiMessage, provider } });
+    } catch (error) {
+      console.error("Chat stream error:", error);
+      send({
+        event: "error",
+        data: error instanceof ProviderError
+          ? { error: error.message, kind: error.kind }
+          : { error: "Failed to process chat message" }
+      });
+    } finally {
+      res.end();
+    }
+  });
+
   // Get chat messages for session
-  app.get("/api/sessions/:sessionId/messages", async (req, res) => {
-    const messages = await storage.getChatMessagesBySession(req.params.sessionId);
-    res.json(messages);
+  app.get("/api/sessions/:sessionId/messages", ownsParamSession, async (req, res) => {
+    try {
+      const messages = await storage.getChatMessagesBySession(req.params.sessionId);
+      res.json(messages);
+    } catch (error) {
+      console.error("Message list error:", error);
+      res.status(500).json({ error: "Failed to load chat messages" });
+    }
   });
 
   // Get session statistics
-  app.get("/api/sessions/:sessionId/stats", async (req, res) => {
-    const sessionId = req.params.sessionId;
-    const emotions = await storage.getEmotionAnalysesBySession(sessionId);
-    const messages = await storage.getChatMessagesBySession(sessionId);
-    const session = await storage.getSession(sessionId);
-    
-    if (!session) {
-      return res.status(404).json({ error: "Session not found" });
-    }
+  app.get("/api/sessions/:sessionId/stats", ownsParamSession, async (req, res) => {
+    const session = getOwnedSession(res);
+    try {
+      // Rollups rather than raw samples, which may already have expired
+      const rollups = await storage.getEmotionRollups(session.id, summaryTier.bucketSeconds);
+      const messages = await storage.getChatMessagesBySession(session.id);
 
-    // Calculate statistics
-    const totalDetections = emotions.length;
-    const averageConfidence = emotions.length > 0 
-      ? Math.round(emotions.reduce((sum, e) => sum + (e.confidence || 0), 0) / emotions.length)
-      : 0;
+      // Calculate statistics
+      const totalDetections = rollups.reduce((sum, rollup) => sum + rollup.sampleCount, 0);
+      const confidenceCount = rollups.reduce((sum, rollup) => sum + rollup.confidenceCount, 0);
+      const averageConfidence = confidenceCount > 0
+        ? Math.round(rollups.reduce((sum, rollup) => sum + rollup.confidenceSum, 0) / confidenceCount)
+        : 0;
     
-    // Calculate dominant emotion
-    const emotionTotals: Record<string, number> = {};
-    emotions.forEach(analysis => {
-      const emotions = analysis.emotions as EmotionData;
-      Object.entries(emotions).forEach(([emotion, value]) => {
-        emotionTotals[emotion] = (emotionTotals[emotion] || 0) + value;
+      // Dominant emotion the same way the live view derives it: smoothed over
+      // time, weighted by confidence, with hysteresis
+      const dominantEmotion = summarizeDominantEmotion(rollups.map(rollupReading)) ?? 'neutral';
+
+      // Calculate session duration
+      const duration = session.isActive && session.startTime
+        ? Math.floor((Date.now() - session.startTime.getTime()) / 1000)
+        : session.endTime && session.startTime
+        ? Math.floor((session.endTime.getTime() - session.startTime.getTime()) / 1000)
+        : 0;
+
+      res.json({
+        duration,
+        detections: totalDetections,
+        averageConfidence,
+        dominantEmotion,
+        messageCount: messages.length,
+        // Confidence-weighted mean of the most recent rollup bucket
+        latestEmotions: rollups.length > 0 ? rollupMeans(rollups[rollups.length - 1]) : null
       });
-    });
-    
-    const dominantEmotion = Object.entries(emotionTotals).length > 0
-      ? Object.entries(emotionTotals).reduce((a, b) => a[1] > b[1] ? a : b)[0]
-      : 'neutral';
+    } catch (error) {
+      console.error("Session stats error:", error);
+      res.status(500).json({ error: "Failed to load session statistics" });
+    }
+  });
 
-    // Calculate session duration
-    const duration = session.isActive && session.startTime
-      ? Math.floor((Date.now() - session.startTime.getTime()) / 1000)
-      : session.endTime && session.startTime
-      ? Math.floor((session.endTime.getTime() - session.startTime.getTime()) / 1000)
-      : 0;
+  // Session data for download: raw samples (csv), the conversation (json) or
+  // a printable report (html, shown in the browser)
+  app.get("/api/sessions/:sessionId/export", ownsParamSession, async (req, res) => {
+    const parsed = sessionExportQuerySchema.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "Invalid export parameters", issues: parsed.error.issues });
+    }
 
-    res.json({
-      duration,
-      detections: totalDetections,
-      averageConfidence,
-      dominantEmotion,
-      messageCount: messages.length,
-      latestEmotions: emotions.slice(-1)[0]?.emotions || null
-    });
+    const session = getOwnedSession(res);
+    const { format, utcOffset } = parsed.data;
+    try {
+      const file = format === "csv"
+        ? await exportSamplesCsv(session)
+        : format === "json"
+        ? await exportConversationJson(session)
+        : await exportReportHtml(session, utcOffset);
+
+      res.type(file.contentType);
+      if (format === "html") {
+        res.setHeader("Content-Disposition", `inline; filename="${file.fileName}"`);
+      } else {
+        res.attachment(file.fileName);
+      }
+      res.send(file.body);
+    } catch (error) {
+      console.error("Session export error:", error);
+      res.status(500).json({ error: "Failed to export session" });
+    }
   });
 
-  // Get available AI providers with enhanced status
-  app.get("/api/ai-providers", async (req, res) => {
+  // AI providers with health, circuit breaker state and telemetry from real traffic
+  app.get("/api/ai-providers", requireAuth, async (req, res) => {
     try {
-      const providers = aiProviderManager.getAvailableProviders();
-      
-      // Add enhanced status information
-      const enhancedProviders = providers.map(provider => ({
-        ...provider,
-        status: provider.configured ? 'active' : 'inactive',
-        lastTest: new Date().toISOString(),
-        description: 'مزود ذكاء اصطناعي متقدم'
-      }));
-      
-      res.json(enhancedProviders);
+      res.json(aiProviderManager.getAvailableProviders());
     } catch (error) {
       console.error('Error fetching providers:', error);
       res.status(500).json({ error: 'فشل في جلب معلومات المزودين' });
     }
   });
 
-  // Enhanced Test AI Provider endpoint with better error handling
-  app.post('/api/test-ai-provider', async (req, res) => {
+  // Enhanced Test AI Provider endpoint with better error handling. Operator
+  // only: each test spends provider quota and feeds the circuit breakers.
+  app.post('/api/test-ai-provider', requireAdmin, async (req, res) => {
     const startTime = Date.now();
     try {
       const { provider: providerName, message, emotions } = req.body;
@@ -196,10 +563,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
       
-      const { response: aiResponse, provider } = await aiProviderManager.generateResponse(
-        message,
-        emotions
-      );
+      // A named provider is tested on its own; "auto" runs the fallback chain
+      const { response: aiResponse, provider } = providerName && providerName !== 'auto'
+        ? await aiProviderManager.testProvider(providerName, message, emotions)
+        : await aiProviderManager.generateResponse(message, emotions);
 
       const responseTime = Date.now() - startTime;
       console.log(`✅ Test completed in ${responseTime}ms`);
@@ -224,8 +591,90 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Runtime provider keys. Values are write-only: responses carry a masked suffix.
+  app.get("/api/provider-credentials", requireAdmin, (req, res) => {
+    res.json({
+      storageEnabled: isCredentialStorageEnabled(),
+      credentials: credentialVault.list(aiProviderManager.getCredentialEnvVars())
+    });
+  });
+
+  // Validate a key against its provider without storing it
+  app.post("/api/provider-credentials/:providerId/validate", requireAdmin, async (req, res) => {
+    const parsed = providerCredentialSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "مفتاح API غير صالح" });
+    }
+
+    try {
+      await aiProviderManager.validateApiKey(req.params.providerId, parsed.data.apiKey);
+      res.json({ valid: true });
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        return res.json({ valid: false, error: error.message, kind: error.kind });
+      }
+      console.error("Error validating provider credential:", error);
+      res.status(500).json({ error: "فشل في التحقق من المفتاح" });
+    }
+  });
+
+  // Set or rotate a key; it is validated first unless skipValidation is given
+  app.put("/api/provider-credentials/:providerId", requireAdmin, async (req, res) => {
+    const parsed = providerCredentialSchema.safeParse(req.body);
+    if (!parsed.success) {
+      return res.status(400).json({ error: "مفتاح API غير صالح" });
+    }
+    if (!isCredentialStorageEnabled()) {
+      return res.status(503).json({ error: "تخزين المفاتيح غير مفعل - عيّن CREDENTIALS_ENCRYPTION_KEY على الخادم" });
+    }
+
+    const { providerId } = req.params;
+    if (!aiProviderManager.getCredentialEnvVars()[providerId]) {
+      return res.status(400).json({ error: `المزود ${providerId} لا يستخدم مفتاح API` });
+    }
+
+    const { apiKey, skipValidation } = parsed.data;
+    try {
+      if (!skipValidation) {
+        await aiProviderManager.validateApiKey(providerId, apiKey);
+      }
+      const credential = await credentialVault.set(providerId, apiKey, skipValidation ? null : new Date());
+      console.log(`🔐 Stored API key for ${providerId}`);
+      res.json(credential);
+    } catch (error) {
+      if (error instanceof ProviderError) {
+        return res.status(422).json({ error: error.message, kind: error.kind });
+      }
+      console.error("Error storing provider credential:", error);
+      res.status(500).json({ error: "فشل في حفظ المفتاح" });
+    }
+  });
+
+  // Revoke a stored key; the provider falls back to its environment variable, if any
+  app.delete("/api/provider-credentials/:providerId", requireAdmin, async (req, res) => {
+    try {
+      const revoked = await credentialVault.revoke(req.params.providerId);
+      if (!revoked) {
+        return res.status(404).json({ error: "لا يوجد مفتاح محفوظ لهذا المزود" });
+      }
+      console.log(`🗑️ Revoked stored API key for ${req.params.providerId}`);
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error revoking provider credential:", error);
+      res.status(500).json({ error: "فشل في حذف المفتاح" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
 
+// Provider routing for a session's pinned provider, if any
+function getSessionRouting(session: Session): ProviderRouting {
+  return {
+    preferredProviderId: session.pinnedProviderId,
+    allowFallback: session.allowProviderFallback ?? true
+  };
+}
+
 // Removed - using aiProviderManager instead
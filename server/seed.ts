@@ -0,0 +1,26 @@
+import { DbStorage, storage } from "./storage";
+import { loadFixtures, FIXTURE_PASSWORD } from "./fixtures";
+
+// The in-memory driver starts from the fixtures with LOAD_FIXTURES=true instead
+if (!(storage instanceof DbStorage)) {
+  throw new Error("db:seed requires the postgres storage driver - set DATABASE_URL and leave STORAGE_DRIVER unset or \"postgres\"");
+}
+const dbStorage = storage;
+
+(async () => {
+  try {
+    await dbStorage.assertSchemaUpToDate();
+    const counts = await loadFixtures(dbStorage);
+    console.log(
+      `🌱 Seeded ${counts.users} users, ${counts.sessions} sessions, ` +
+      `${counts.emotionAnalyses} emotion analyses (${counts.emotionRollups} rollups) and ` +
+      `${counts.chatMessages} chat messages`
+    );
+    console.log(`🔑 Fixture users log in with the password "${FIXTURE_PASSWORD}"`);
+  } finally {
+    await dbStorage.pool.end();
+  }
+})().catch(error => {
+  console.error("❌ Seeding failed:", error);
+  process.exit(1);
+});
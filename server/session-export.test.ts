@@ -0,0 +1,58 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { FIXTURE_IDS, loadFixtures } from "./fixtures";
+import { exportConversationJson, exportReportHtml, exportSamplesCsv } from "./session-export";
+import type { Session } from "@shared/schema";
+
+const { sessions } = FIXTURE_IDS;
+const SCRIPT = `<script>alert("x")</script>`;
+const FORMULA = `=HYPERLINK("http://example.com","x")`;
+
+describe("session exports", () => {
+  let session: Session;
+
+  before(async () => {
+    await loadFixtures(storage);
+    session = (await storage.getSession(sessions.laylaActive))!;
+    await storage.createChatMessage({ sessionId: session.id, isUser: true, content: `${SCRIPT}\nسطر ثانٍ` });
+    await storage.saveEmotionSamples([{
+      sessionId: session.id,
+      timestamp: new Date(),
+      emotions: { happy: 50, sad: 0, angry: 0, surprised: 0, fearful: 0, disgusted: 0, neutral: 50 },
+      gender: FORMULA,
+    }], []);
+  });
+
+  it("writes one CSV row per sample, readable as UTF-8 by spreadsheets", async () => {
+    const file = await exportSamplesCsv(session);
+    const lines = file.body.split("\r\n").filter(Boolean);
+
+    assert.ok(file.body.startsWith("\uFEFFtimestamp,happy,"));
+    assert.equal(lines.length, 1 + (await storage.getEmotionAnalysesBySession(session.id)).length);
+  });
+
+  it("keeps spreadsheet programs from running formulas in CSV cells", async () => {
+    const { body } = await exportSamplesCsv(session);
+
+    assert.ok(body.includes(`"'=HYPERLINK(""http://example.com"",""x"")"`));
+    assert.ok(!body.includes(`,${FORMULA}`));
+  });
+
+  it("escapes message text in the HTML report", async () => {
+    const { body } = await exportReportHtml(session, 0);
+
+    assert.ok(!body.includes(SCRIPT));
+    assert.ok(body.includes("&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;<br>سطر ثانٍ"));
+  });
+
+  it("exports the conversation in order with its emotions", async () => {
+    const file = await exportConversationJson(session);
+    const { messages } = JSON.parse(file.body);
+
+    assert.equal(file.fileName, `session-${session.id}-conversation.json`);
+    assert.equal(messages.length, 3);
+    assert.ok(messages[0].emotionContext.happy > 50);
+    assert.equal(messages[2].content, `${SCRIPT}\nسطر ثانٍ`);
+  });
+});
@@ -0,0 +1,278 @@
+import { storage } from "./storage";
+import { mergeRollups, rollupMeans, rollupReading } from "./emotion-rollups";
+import { rollupTiers, summaryTier } from "./emotion-ingest";
+import { buildEmotionTimeline, EmotionTimelineError } from "./emotion-timeline";
+import { summarizeDominantEmotion } from "@shared/emotion-smoothing";
+import {
+  EMOTION_KEYS,
+  type ChatMessage,
+  type EmotionAnalysis,
+  type EmotionData,
+  type EmotionTimeline,
+  type Session,
+} from "@shared/schema";
+
+// Bucket sizes the report's chart may use, finest first, and the most points
+// it draws for one session
+const REPORT_BUCKET_SIZES = [1, 5, 10, 30, 60, 300, 900, 3600];
+const REPORT_MAX_POINTS = 200;
+
+const CHART_WIDTH = 760;
+const CHART_HEIGHT = 240;
+const CHART_PADDING = 32;
+
+const EMOTION_STYLES: Record<keyof EmotionData, { label: string; color: string }> = {
+  happy: { label: "سعادة", color: "#eab308" },
+  neutral: { label: "محايد", color: "#6b7280" },
+  sad: { label: "حزن", color: "#3b82f6" },
+  angry: { label: "غضب", color: "#ef4444" },
+  surprised: { label: "تفاجؤ", color: "#a855f7" },
+  fearful: { label: "خوف", color: "#6366f1" },
+  disgusted: { label: "اشمئزاز", color: "#22c55e" },
+};
+
+export interface ExportFile {
+  contentType: string;
+  fileName: string;
+  body: string;
+}
+
+// Raw emotion samples of the session, one row each. Samples past the raw
+// retention period are no longer stored and are not included.
+export async function exportSamplesCsv(session: Session): Promise<ExportFile> {
+  const analyses = await storage.getEmotionAnalysesBySession(session.id);
+  const header = ["timestamp", ...EMOTION_KEYS, "age", "gender", "confidence", "subject_present"];
+  const rows = analyses.map((analysis: EmotionAnalysis) => {
+    const emotions = analysis.emotions as EmotionData;
+    return [
+      analysis.timestamp?.toISOString() ?? "",
+      ...EMOTION_KEYS.map(key => emotions[key] ?? ""),
+      analysis.age ?? "",
+      analysis.gender ?? "",
+      analysis.confidence ?? "",
+      analysis.subjectPresent,
+    ];
+  });
+
+  return {
+    contentType: "text/csv; charset=utf-8",
+    fileName: `session-${session.id}-samples.csv`,
+    // The byte order mark makes spreadsheet programs read the file as UTF-8
+    body: "\uFEFF" + [header, ...rows].map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n",
+  };
+}
+
+// The conversation with the emotions recorded alongside each message
+export async function exportConversationJson(session: Session): Promise<ExportFile> {
+  const messages = await storage.getChatMessagesBySession(session.id);
+  const conversation = {
+    session: {
+      id: session.id,
+      startTime: session.startTime,
+      endTime: session.endTime,
+    },
+    messages: messages.map(message => ({
+      id: message.id,
+      timestamp: message.timestamp,
+      isUser: message.isUser,
+      content: message.content,
+      provider: message.provider,
+      emotionContext: message.emotionContext,
+    })),
+  };
+
+  return {
+    contentType: "application/json; charset=utf-8",
+    fileName: `session-${session.id}-conversation.json`,
+    body: JSON.stringify(conversation, null, 2),
+  };
+}
+
+// A self-contained page summarizing the session, meant to be printed or
+// saved as PDF from the browser. The chart is inline SVG.
+export async function exportReportHtml(session: Session, utcOffset: number): Promise<ExportFile> {
+  const [rollups, messages, timeline] = await Promise.all([
+    storage.getEmotionRollups(session.id, summaryTier.bucketSeconds),
+    storage.getChatMessagesBySession(session.id),
+    reportTimeline(session),
+  ]);
+
+  const formatTime = (date: Date | null) => date
+    ? new Intl.DateTimeFormat("ar", { dateStyle: "medium", timeStyle: "medium", timeZone: "UTC" })
+      .format(new Date(date.getTime() + utcOffset * 60 * 1000))
+    : "-";
+
+  const end = session.endTime ?? session.lastActivityAt ?? new Date();
+  const durationSeconds = session.startTime ? Math.max(0, (end.getTime() - session.startTime.getTime()) / 1000) : 0;
+  const sampleCount = rollups.reduce((sum, rollup) => sum + rollup.sampleCount, 0);
+  const confidenceCount = rollups.reduce((sum, rollup) => sum + rollup.confidenceCount, 0);
+  const averageConfidence = confidenceCount > 0
+    ? Math.round(rollups.reduce((sum, rollup) => sum + rollup.confidenceSum, 0) / confidenceCount)
+    : null;
+  const dominantEmotion = summarizeDominantEmotion(rollups.map(rollupReading));
+  const overallMeans = rollups.length > 0 ? rollupMeans(rollups.reduce(mergeRollups)) : null;
+
+  const summary = [
+    ["بداية الجلسة", formatTime(session.startTime)],
+    ["نهاية الجلسة", session.endTime ? formatTime(session.endTime) : "ما زالت نشطة"],
+    ["المدة", formatDuration(durationSeconds)],
+    ["عدد التحليلات", String(sampleCount)],
+    ["متوسط دقة الكشف", averageConfidence !== null ? `${averageConfidence}%` : "-"],
+    ["الشعور الغالب", dominantEmotion ? EMOTION_STYLES[dominantEmotion].label : "-"],
+    ["عدد الرسائل", String(messages.length)],
+  ];
+
+  const body = `<!DOCTYPE html>
+<html lang="ar" dir="rtl">
+<head>
+<meta charset="utf-8">
+<title>تقرير الجلسة ${escapeHtml(session.id)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; color: #111827; margin: 2rem auto; max-width: 820px; line-height: 1.5; }
+  h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+  h2 { font-size: 1.1rem; margin-top: 2rem; border-bottom: 1px solid #e5e7eb; padding-bottom: 0.25rem; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: right; padding: 0.35rem 0.5rem; border-bottom: 1px solid #f3f4f6; vertical-align: top; }
+  th { color: #6b7280; font-weight: 500; width: 30%; }
+  .muted { color: #6b7280; font-size: 0.85rem; }
+  .legend span { display: inline-block; margin-left: 1rem; font-size: 0.85rem; }
+  .legend i { display: inline-block; width: 0.75rem; height: 0.75rem; margin-left: 0.25rem; border-radius: 2px; }
+  .message { padding: 0.5rem 0.75rem; margin: 0.5rem 0; border-radius: 0.5rem; background: #f9fafb; break-inside: avoid; }
+  .message.user { background: #eef2ff; }
+  .print { margin-top: 1rem; }
+  @media print { .print { display: none; } body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>تقرير الجلسة</h1>
+<div class="muted">${escapeHtml(session.id)} · أُنشئ في ${escapeHtml(formatTime(new Date()))}</div>
+<button class="print" onclick="window.print()">طباعة / حفظ PDF</button>
+
+<h2>ملخص</h2>
+<table>
+${summary.map(([label, value]) => `<tr><th>${label}</th><td>${escapeHtml(value)}</td></tr>`).join("\n")}
+</table>
+
+<h2>المشاعر الغالبة</h2>
+${overallMeans ? renderEmotionTable(overallMeans, timeline) : `<p class="muted">لم تُسجل أي تحليلات للمشاعر.</p>`}
+
+<h2>الخط الزمني للمشاعر</h2>
+${timeline && timeline.buckets.length >= 2 ? renderTimelineChart(timeline, formatTime) : `<p class="muted">لا توجد بيانات كافية لرسم الخط الزمني.</p>`}
+
+<h2>المحادثة</h2>
+${messages.length > 0 ? messages.map(message => renderMessage(message, formatTime)).join("\n") : `<p class="muted">لا توجد رسائل.</p>`}
+</body>
+</html>
+`;
+
+  return {
+    contentType: "text/html; charset=utf-8",
+    fileName: `session-${session.id}-report.html`,
+    body,
+  };
+}
+
+// The whole session at the finest bucket size that keeps the chart readable
+async function reportTimeline(session: Session): Promise<EmotionTimeline | null> {
+  const start = session.startTime?.getTime() ?? Date.now();
+  const seconds = Math.max(1, ((session.endTime?.getTime() ?? Date.now()) - start) / 1000);
+  const bucket = REPORT_BUCKET_SIZES.find(size =>
+    seconds / size <= REPORT_MAX_POINTS && rollupTiers.some(tier => size % tier.bucketSeconds === 0)
+  );
+  if (!bucket) return null;
+
+  try {
+    return await buildEmotionTimeline(session, { bucket });
+  } catch (error) {
+    if (error instanceof EmotionTimelineError) return null;
+    throw error;
+  }
+}
+
+function renderEmotionTable(means: EmotionData, timeline: EmotionTimeline | null): string {
+  const buckets = timeline?.buckets ?? [];
+  const rows = [...EMOTION_KEYS]
+    .sort((a, b) => means[b] - means[a])
+    .map(key => {
+      const dominantShare = buckets.length > 0
+        ? Math.round((buckets.filter(bucket => bucket.dominantEmotion === key).length / buckets.length) * 100)
+        : null;
+      return `<tr><td><i style="display:inline-block;width:0.75rem;height:0.75rem;background:${EMOTION_STYLES[key].color}"></i> ${EMOTION_STYLES[key].label}</td>`
+        + `<td>${Math.round(means[key])}%</td><td>${dominantShare !== null ? `${dominantShare}%` : "-"}</td></tr>`;
+    });
+  return `<table>
+<tr><th>الشعور</th><th>المتوسط</th><th>نسبة الوقت كشعور غالب</th></tr>
+${rows.join("\n")}
+</table>`;
+}
+
+function renderTimelineChart(timeline: EmotionTimeline, formatTime: (date: Date) => string): string {
+  const first = timeline.buckets[0].start.getTime();
+  const last = timeline.buckets[timeline.buckets.length - 1].start.getTime();
+  const plotWidth = CHART_WIDTH - 2 * CHART_PADDING;
+  const plotHeight = CHART_HEIGHT - 2 * CHART_PADDING;
+  const x = (time: number) => CHART_PADDING + ((time - first) / Math.max(1, last - first)) * plotWidth;
+  const y = (value: number) => CHART_PADDING + (1 - value / 100) * plotHeight;
+
+  const grid = [0, 25, 50, 75, 100].map(value =>
+    `<line x1="${CHART_PADDING}" x2="${CHART_WIDTH - CHART_PADDING}" y1="${y(value)}" y2="${y(value)}" stroke="#e5e7eb"/>`
+    + `<text x="${CHART_PADDING - 6}" y="${y(value) + 4}" font-size="10" text-anchor="end" fill="#6b7280">${value}</text>`
+  );
+  const lines = EMOTION_KEYS.map(key => {
+    const points = timeline.buckets
+      .map(bucket => `${x(bucket.start.getTime()).toFixed(1)},${y(bucket.mean[key]).toFixed(1)}`)
+      .join(" ");
+    return `<polyline points="${points}" fill="none" stroke="${EMOTION_STYLES[key].color}" stroke-width="1.5"/>`;
+  });
+  const labels = [first, last].map((time, i) =>
+    `<text x="${x(time)}" y="${CHART_HEIGHT - 8}" font-size="10" text-anchor="${i === 0 ? "start" : "end"}" fill="#6b7280">`
+    + `${escapeHtml(formatTime(new Date(time)))}</text>`
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%" direction="ltr">
+${[...grid, ...lines, ...labels].join("\n")}
+</svg>
+<div class="legend">${EMOTION_KEYS.map(key =>
+    `<span><i style="background:${EMOTION_STYLES[key].color}"></i>${EMOTION_STYLES[key].label}</span>`
+  ).join("")}</div>
+<p class="muted">متوسط كل ${timeline.bucketSeconds} ثانية، موزوناً بدقة الكشف.</p>`;
+}
+
+function renderMessage(message: ChatMessage, formatTime: (date: Date | null) => string): string {
+  const emotions = message.emotionContext as EmotionData | null;
+  const topEmotions = emotions
+    ? [...EMOTION_KEYS].sort((a, b) => (emotions[b] ?? 0) - (emotions[a] ?? 0)).slice(0, 2)
+      .map(key => `${EMOTION_STYLES[key].label} ${Math.round(emotions[key] ?? 0)}%`).join("، ")
+    : null;
+
+  return `<div class="message${message.isUser ? " user" : ""}">
+<div class="muted">${message.isUser ? "المستخدم" : "المساعد"} · ${escapeHtml(formatTime(message.timestamp))}${topEmotions ? ` · ${escapeHtml(topEmotions)}` : ""}</div>
+<div>${escapeHtml(message.content).replace(/\n/g, "<br>")}</div>
+</div>`;
+}
+
+function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return minutes < 60
+    ? `${minutes} دقيقة ${Math.round(seconds % 60)} ثانية`
+    : `${Math.floor(minutes / 60)} ساعة ${minutes % 60} دقيقة`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Quotes cells that need it, and keeps text starting like a formula from
+// being run by spreadsheet programs
+function csvCell(value: string | number | boolean): string {
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,42 @@
+import type { Request, Response, NextFunction } from "express";
+import { storage } from "./storage";
+import { getOwnedSession } from "./auth";
+
+// Active sessions without a chat message or emotion sample for this long are ended
+const idleTimeout = parseFloat(process.env.SESSION_IDLE_TIMEOUT_MS || "");
+export const SESSION_IDLE_TIMEOUT_MS = Number.isFinite(idleTimeout) ? idleTimeout : 30 * 60 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 60 * 1000;
+
+// For routes that write to the session loaded by requireSessionOwner: an ended
+// session has to be resumed first, and every write counts as activity
+export async function recordSessionActivity(req: Request, res: Response, next: NextFunction) {
+  const chatSession = getOwnedSession(res);
+  if (!chatSession.isActive) {
+    return res.status(409).json({ error: "Session has ended" });
+  }
+
+  try {
+    const updated = await storage.updateSession(chatSession.id, { lastActivityAt: new Date() });
+    res.locals.session = updated ?? chatSession;
+    next();
+  } catch (error) {
+    next(error);
+  }
+}
+
+// Periodically ends sessions that went idle, e.g. because the tab was closed
+// before the client could end them
+export function startIdleSessionReaper(): NodeJS.Timeout {
+  const timer = setInterval(async () => {
+    try {
+      const ended = await storage.endIdleSessions(new Date(Date.now() - SESSION_IDLE_TIMEOUT_MS));
+      if (ended.length > 0) {
+        console.log(`💤 Ended ${ended.length} idle session(s)`);
+      }
+    } catch (error) {
+      console.error("Failed to end idle sessions:", error);
+    }
+  }, IDLE_CHECK_INTERVAL_MS);
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,82 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { MemStorage } from "./storage";
+import { buildFixtures, FIXTURE_IDS, loadFixtures } from "./fixtures";
+import { rollUpSamples } from "./emotion-rollups";
+import type { NewEmotionSample } from "@shared/schema";
+
+const { users, sessions } = FIXTURE_IDS;
+const now = new Date("2026-03-10T12:00:00Z");
+const fixtures = buildFixtures(now);
+
+// The in-memory driver has to answer like DbStorage does in SQL, since
+// development and tests run against it
+describe("MemStorage", () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    await loadFixtures(storage, fixtures);
+  });
+
+  it("imports every fixture row once", async () => {
+    assert.deepEqual(await loadFixtures(storage, fixtures), {
+      users: 0, sessions: 0, emotionAnalyses: 0, emotionRollups: 0, chatMessages: 0
+    });
+    const rows = await storage.getUserDataRows(users.layla);
+    assert.equal(rows.sessions.length, 2);
+    assert.equal(rows.emotionAnalyses.length, fixtures.emotionAnalyses.filter(row =>
+      row.sessionId === sessions.laylaPast || row.sessionId === sessions.laylaActive
+    ).length);
+  });
+
+  it("lists a user's sessions newest first, a page at a time", async () => {
+    const first = await storage.listSessionsByUserId(users.layla, { limit: 1, offset: 0 });
+    const second = await storage.listSessionsByUserId(users.layla, { limit: 1, offset: 1 });
+
+    assert.equal(first.total, 2);
+    assert.deepEqual(first.sessions.map(session => session.id), [sessions.laylaActive]);
+    assert.deepEqual(second.sessions.map(session => session.id), [sessions.laylaPast]);
+  });
+
+  it("selects sessions by start time in a half-open range", async () => {
+    const laylaPast = (await storage.getSession(sessions.laylaPast))!;
+    const start = laylaPast.startTime!;
+
+    const from = await storage.getSessionsByUserIdInRange(users.layla, start, now);
+    const before = await storage.getSessionsByUserIdInRange(users.layla, new Date(0), start);
+
+    assert.deepEqual(from.map(session => session.id), [sessions.laylaPast, sessions.laylaActive]);
+    assert.deepEqual(before, []);
+  });
+
+  it("aggregates fine rollups into the same buckets as rolling up the samples", async () => {
+    const samples = (await storage.getEmotionAnalysesBySession(sessions.laylaPast)) as NewEmotionSample[];
+    const expected = rollUpSamples(sessions.laylaPast, samples, 300);
+
+    const aggregated = await storage.aggregateEmotionRollups(sessions.laylaPast, {
+      sourceBucketSeconds: 1,
+      bucketSeconds: 300,
+      from: new Date(0),
+      to: now,
+    });
+
+    assert.deepEqual(
+      aggregated.map(rollup => [rollup.bucketStart.getTime(), rollup.sampleCount]),
+      expected.map(rollup => [rollup.bucketStart.getTime(), rollup.sampleCount])
+    );
+    aggregated.forEach((rollup, i) => {
+      assert.ok(Math.abs(rollup.weightSum - expected[i].weightSum!) < 1e-9);
+      assert.equal(rollup.confidenceSum, expected[i].confidenceSum);
+    });
+  });
+
+  it("ends idle sessions at their last activity", async () => {
+    const ended = await storage.endIdleSessions(new Date(now.getTime() + 1));
+
+    assert.deepEqual(ended.map(session => session.id), [sessions.laylaActive]);
+    assert.equal(ended[0].isActive, false);
+    assert.equal(ended[0].endTime!.getTime(), now.getTime());
+    assert.equal(await storage.getActiveSessionByUserId(users.layla), undefined);
+  });
+});
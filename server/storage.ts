@@ -1,41 +1,158 @@
 import { 
+  users,
+  sessions,
+  emotionAnalyses,
+  emotionRollups,
+  chatMessages,
+  providerCredentials,
   type User, 
-  type InsertUser,
+  type InsertUserAccount,
+  type UserProfileUpdate,
+  type DemographicSource,
   type Session,
   type InsertSession,
+  type SessionListQuery,
   type EmotionAnalysis,
-  type InsertEmotionAnalysis,
+  type NewEmotionSample,
+  type EmotionRollup,
+  type InsertEmotionRollup,
   type ChatMessage,
-  type InsertChatMessage
+  type InsertChatMessage,
+  type ProviderCredential,
+  type InsertProviderCredential,
+  type UserDataRows,
+  type DataDeletionAudit,
+  dataDeletionAudits,
+  userSessions,
+  EMOTION_KEYS
 } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { and, asc, count, desc, eq, gte, inArray, lt, sql, type AnyColumn } from "drizzle-orm";
+import type { Pool } from "@neondatabase/serverless";
+import { createDb, type Database } from "./db";
+import { bucketStartOf, mergeRollups, type RollupRange } from "./emotion-rollups";
+import { assertSchemaUpToDate } from "./migrations";
+import { loadFixtures } from "./fixtures";
+
+// Raised when a user is created or renamed to a name another user already has
+export class UserNameTakenError extends Error {
+  constructor(public readonly userName: string) {
+    super(`User name already taken: ${userName}`);
+    this.name = "UserNameTakenError";
+  }
+}
+
+// Postgres unique_violation, raised by the users_name_unique index
+function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === "23505";
+}
+
+// Rows that bring their own ids and timestamps, such as the development fixtures
+export interface ImportRows {
+  users: (typeof users.$inferInsert)[];
+  sessions: (typeof sessions.$inferInsert)[];
+  emotionAnalyses: (typeof emotionAnalyses.$inferInsert)[];
+  emotionRollups: (typeof emotionRollups.$inferInsert)[];
+  chatMessages: (typeof chatMessages.$inferInsert)[];
+}
+
+export interface GuestClaim {
+  name: string;
+  email?: string | null;
+  passwordHash: string;
+}
+
+type DemographicUpdate<T> = {
+  value: T | null;
+  source: "self_reported" | "model_estimated";
+  confidence?: number;
+};
+
+// Column values stored for one demographic update. Clearing a value returns
+// the field to "default"; only model estimates carry a confidence.
+function demographicColumns<T>(update: DemographicUpdate<T>) {
+  if (update.source === "self_reported") {
+    return {
+      value: update.value,
+      source: (update.value === null ? "default" : "self_reported") as DemographicSource,
+      confidence: null,
+    };
+  }
+  return {
+    value: update.value,
+    source: "model_estimated" as DemographicSource,
+    confidence: Math.round(update.confidence ?? 0),
+  };
+}
 
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByName(name: string): Promise<User | undefined>;
-  createUser(user: InsertUser): Promise<User>;
+  createUser(user: InsertUserAccount): Promise<User>;
+  // Turns a guest into a registered account in place, so its sessions,
+  // emotions and messages stay attached. Undefined if the user is not a guest.
+  claimGuestUser(guestId: string, claim: GuestClaim): Promise<User | undefined>;
+  // Applies self-reported values and model estimates of age and gender. An
+  // estimate never replaces a self-reported value.
+  updateUserProfile(id: string, update: UserProfileUpdate): Promise<User | undefined>;
+  // Every session of the user with its samples, rollups and messages
+  getUserDataRows(userId: string): Promise<UserDataRows>;
+  // Erases the user with their sessions, samples, rollups and messages, and
+  // records the erasure in an audit row, atomically. Postgres also drops the
+  // user's login sessions. Undefined if the user does not exist.
+  deleteUser(userId: string): Promise<DataDeletionAudit | undefined>;
   
   // Sessions
   getSession(id: string): Promise<Session | undefined>;
   createSession(session: InsertSession): Promise<Session>;
   updateSession(id: string, updates: Partial<Session>): Promise<Session | undefined>;
   getActiveSessionByUserId(userId: string): Promise<Session | undefined>;
+  // Newest first, with the total number of the user's sessions
+  listSessionsByUserId(userId: string, page: SessionListQuery): Promise<{ sessions: Session[]; total: number }>;
+  // Ends active sessions with no activity since `idleSince`; their end time
+  // is the last activity, not the moment they are noticed
+  endIdleSessions(idleSince: Date): Promise<Session[]>;
+  // The user's sessions started in [from, to), oldest first
+  getSessionsByUserIdInRange(userId: string, from: Date, to: Date): Promise<Session[]>;
   
   // Emotion Analyses
-  createEmotionAnalysis(analysis: InsertEmotionAnalysis): Promise<EmotionAnalysis>;
+  // Stores raw samples and merges their rollups into the existing buckets, atomically
+  saveEmotionSamples(samples: NewEmotionSample[], rollups: InsertEmotionRollup[]): Promise<EmotionAnalysis[]>;
   getEmotionAnalysesBySession(sessionId: string): Promise<EmotionAnalysis[]>;
+  getEmotionRollups(sessionId: string, bucketSeconds: number): Promise<EmotionRollup[]>;
+  // Rollups merged into the range's bucket size, oldest first; empty buckets are left out
+  aggregateEmotionRollups(sessionId: string, range: RollupRange): Promise<EmotionRollup[]>;
+  // The same for every session of the user, one row per session and bucket
+  aggregateUserEmotionRollups(userId: string, range: RollupRange): Promise<EmotionRollup[]>;
+  deleteEmotionAnalysesBefore(before: Date): Promise<number>;
+  deleteEmotionRollupsBefore(bucketSeconds: number, before: Date): Promise<number>;
   
   // Chat Messages
   createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
   getChatMessagesBySession(sessionId: string): Promise<ChatMessage[]>;
+
+  // Provider Credentials
+  listProviderCredentials(): Promise<ProviderCredential[]>;
+  upsertProviderCredential(credential: InsertProviderCredential): Promise<ProviderCredential>;
+  deleteProviderCredential(providerId: string): Promise<boolean>;
+
+  // Bulk loading
+  // Inserts the users and sessions whose id (or user name) is not taken yet,
+  // then the samples, rollups and messages of the sessions inserted here, so
+  // loading the same rows twice adds nothing. Returns the inserted counts.
+  importRows(rows: ImportRows): Promise<Record<keyof ImportRows, number>>;
 }
 
 export class MemStorage implements IStorage {
   private users: Map<string, User> = new Map();
   private sessions: Map<string, Session> = new Map();
   private emotionAnalyses: Map<string, EmotionAnalysis> = new Map();
+  // Keyed by session, bucket size and bucket start
+  private emotionRollups: Map<string, EmotionRollup> = new Map();
   private chatMessages: Map<string, ChatMessage> = new Map();
+  private dataDeletionAudits: DataDeletionAudit[] = [];
+  private providerCredentials: Map<string, ProviderCredential> = new Map();
 
   // Users
   async getUser(id: string): Promise<User | undefined> {
@@ -46,13 +163,22 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.name === name);
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
+  async createUser(insertUser: InsertUserAccount): Promise<User> {
+    if (await this.getUserByName(insertUser.name)) {
+      throw new UserNameTakenError(insertUser.name);
+    }
     const id = randomUUID();
     const user: User = { 
       ...insertUser,
       email: insertUser.email || null,
       age: insertUser.age || null,
       gender: insertUser.gender || null,
+      ageSource: "default",
+      ageConfidence: null,
+      genderSource: "default",
+      genderConfidence: null,
+      passwordHash: insertUser.passwordHash || null,
+      isGuest: insertUser.isGuest ?? false,
       id,
       createdAt: new Date()
     };
@@ -60,6 +186,86 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async claimGuestUser(guestId: string, claim: GuestClaim): Promise<User | undefined> {
+    const guest = this.users.get(guestId);
+    if (!guest?.isGuest) return undefined;
+
+    const existing = await this.getUserByName(claim.name);
+    if (existing && existing.id !== guestId) {
+      throw new UserNameTakenError(claim.name);
+    }
+
+    const user: User = {
+      ...guest,
+      name: claim.name,
+      email: claim.email || null,
+      passwordHash: claim.passwordHash,
+      isGuest: false
+    };
+    this.users.set(guestId, user);
+    return user;
+  }
+
+  async updateUserProfile(id: string, update: UserProfileUpdate): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updated: User = { ...user };
+    if (update.age && !(update.age.source === "model_estimated" && user.ageSource === "self_reported")) {
+      const age = demographicColumns(update.age);
+      updated.age = age.value;
+      updated.ageSource = age.source;
+      updated.ageConfidence = age.confidence;
+    }
+    if (update.gender && !(update.gender.source === "model_estimated" && user.genderSource === "self_reported")) {
+      const gender = demographicColumns(update.gender);
+      updated.gender = gender.value;
+      updated.genderSource = gender.source;
+      updated.genderConfidence = gender.confidence;
+    }
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async getUserDataRows(userId: string): Promise<UserDataRows> {
+    const userSessions = Array.from(this.sessions.values())
+      .filter(session => session.userId === userId)
+      .sort((a, b) => (a.startTime?.getTime() ?? 0) - (b.startTime?.getTime() ?? 0));
+    const sessionIds = new Set(userSessions.map(session => session.id));
+    return {
+      sessions: userSessions,
+      emotionAnalyses: Array.from(this.emotionAnalyses.values()).filter(a => a.sessionId && sessionIds.has(a.sessionId)),
+      emotionRollups: Array.from(this.emotionRollups.values()).filter(r => sessionIds.has(r.sessionId)),
+      chatMessages: Array.from(this.chatMessages.values()).filter(m => m.sessionId && sessionIds.has(m.sessionId))
+    };
+  }
+
+  async deleteUser(userId: string): Promise<DataDeletionAudit | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+
+    const rows = await this.getUserDataRows(userId);
+    rows.emotionAnalyses.forEach(analysis => this.emotionAnalyses.delete(analysis.id));
+    rows.chatMessages.forEach(message => this.chatMessages.delete(message.id));
+    rows.emotionRollups.forEach(rollup => {
+      this.emotionRollups.delete(`${rollup.sessionId}/${rollup.bucketSeconds}/${rollup.bucketStart.getTime()}`);
+    });
+    rows.sessions.forEach(session => this.sessions.delete(session.id));
+    this.users.delete(userId);
+
+    const audit: DataDeletionAudit = {
+      id: randomUUID(),
+      deletedAt: new Date(),
+      wasGuest: user.isGuest ?? false,
+      sessionCount: rows.sessions.length,
+      emotionAnalysisCount: rows.emotionAnalyses.length,
+      emotionRollupCount: rows.emotionRollups.length,
+      chatMessageCount: rows.chatMessages.length
+    };
+    this.dataDeletionAudits.push(audit);
+    return audit;
+  }
+
   // Sessions
   async getSession(id: string): Promise<Session | undefined> {
     return this.sessions.get(id);
@@ -73,7 +279,10 @@ export class MemStorage implements IStorage {
       id,
       startTime: new Date(),
       endTime: null,
-      isActive: true
+      isActive: true,
+      lastActivityAt: new Date(),
+      pinnedProviderId: null,
+      allowProviderFallback: true
     };
     this.sessions.set(id, session);
     return session;
@@ -94,26 +303,128 @@ export class MemStorage implements IStorage {
     );
   }
 
-  // Emotion Analyses
-  async createEmotionAnalysis(insertAnalysis: InsertEmotionAnalysis): Promise<EmotionAnalysis> {
-    const id = randomUUID();
-    const analysis: EmotionAnalysis = {
-      ...insertAnalysis,
-      sessionId: insertAnalysis.sessionId || null,
-      age: insertAnalysis.age || null,
-      gender: insertAnalysis.gender || null,
-      confidence: insertAnalysis.confidence || null,
-      id,
-      timestamp: new Date()
+  async listSessionsByUserId(userId: string, page: SessionListQuery): Promise<{ sessions: Session[]; total: number }> {
+    const userSessions = Array.from(this.sessions.values())
+      .filter(session => session.userId === userId)
+      .sort((a, b) => (b.startTime?.getTime() ?? 0) - (a.startTime?.getTime() ?? 0));
+    return {
+      sessions: userSessions.slice(page.offset, page.offset + page.limit),
+      total: userSessions.length
     };
-    this.emotionAnalyses.set(id, analysis);
-    return analysis;
+  }
+
+  async getSessionsByUserIdInRange(userId: string, from: Date, to: Date): Promise<Session[]> {
+    return Array.from(this.sessions.values())
+      .filter(session => session.userId === userId && session.startTime && session.startTime >= from && session.startTime < to)
+      .sort((a, b) => a.startTime!.getTime() - b.startTime!.getTime());
+  }
+
+  async endIdleSessions(idleSince: Date): Promise<Session[]> {
+    const ended: Session[] = [];
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.isActive && session.lastActivityAt && session.lastActivityAt < idleSince) {
+        const endedSession = { ...session, isActive: false, endTime: session.lastActivityAt };
+        this.sessions.set(session.id, endedSession);
+        ended.push(endedSession);
+      }
+    }
+    return ended;
+  }
+
+  // Emotion Analyses
+  async saveEmotionSamples(samples: NewEmotionSample[], rollups: InsertEmotionRollup[]): Promise<EmotionAnalysis[]> {
+    const analyses = samples.map(sample => {
+      const analysis: EmotionAnalysis = {
+        ...sample,
+        sessionId: sample.sessionId || null,
+        age: sample.age || null,
+        gender: sample.gender || null,
+        confidence: sample.confidence ?? null,
+        subjectPresent: sample.subjectPresent ?? true,
+        id: randomUUID()
+      };
+      this.emotionAnalyses.set(analysis.id, analysis);
+      return analysis;
+    });
+
+    for (const rollup of rollups) {
+      const key = `${rollup.sessionId}/${rollup.bucketSeconds}/${rollup.bucketStart.getTime()}`;
+      const existing = this.emotionRollups.get(key) ?? {
+        ...rollup,
+        sampleCount: 0,
+        emotionSums: {},
+        emotionMaxima: {},
+        weightedEmotionSums: {},
+        weightSum: 0,
+        confidenceSum: 0,
+        confidenceCount: 0
+      };
+      this.emotionRollups.set(key, mergeRollups(existing, rollup));
+    }
+    return analyses;
   }
 
   async getEmotionAnalysesBySession(sessionId: string): Promise<EmotionAnalysis[]> {
-    return Array.from(this.emotionAnalyses.values()).filter(
-      analysis => analysis.sessionId === sessionId
-    );
+    return Array.from(this.emotionAnalyses.values())
+      .filter(analysis => analysis.sessionId === sessionId)
+      .sort((a, b) => (a.timestamp?.getTime() ?? 0) - (b.timestamp?.getTime() ?? 0));
+  }
+
+  async getEmotionRollups(sessionId: string, bucketSeconds: number): Promise<EmotionRollup[]> {
+    return Array.from(this.emotionRollups.values())
+      .filter(rollup => rollup.sessionId === sessionId && rollup.bucketSeconds === bucketSeconds)
+      .sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+  }
+
+  async aggregateEmotionRollups(sessionId: string, range: RollupRange): Promise<EmotionRollup[]> {
+    const buckets = new Map<number, EmotionRollup>();
+    for (const rollup of await this.getEmotionRollups(sessionId, range.sourceBucketSeconds)) {
+      if (rollup.bucketStart < range.from || rollup.bucketStart >= range.to) continue;
+
+      const bucketStart = bucketStartOf(rollup.bucketStart, range.bucketSeconds, range.origin);
+      const existing = buckets.get(bucketStart.getTime()) ?? {
+        ...rollup,
+        bucketSeconds: range.bucketSeconds,
+        bucketStart,
+        sampleCount: 0,
+        emotionSums: {},
+        emotionMaxima: {},
+        weightedEmotionSums: {},
+        weightSum: 0,
+        confidenceSum: 0,
+        confidenceCount: 0
+      };
+      buckets.set(bucketStart.getTime(), mergeRollups(existing, rollup));
+    }
+    return Array.from(buckets.values()).sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+  }
+
+  async aggregateUserEmotionRollups(userId: string, range: RollupRange): Promise<EmotionRollup[]> {
+    const userSessions = Array.from(this.sessions.values()).filter(session => session.userId === userId);
+    const perSession = await Promise.all(userSessions.map(session => this.aggregateEmotionRollups(session.id, range)));
+    return perSession.flat().sort((a, b) => a.bucketStart.getTime() - b.bucketStart.getTime());
+  }
+
+  async deleteEmotionAnalysesBefore(before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [id, analysis] of Array.from(this.emotionAnalyses.entries())) {
+      if (analysis.timestamp && analysis.timestamp < before) {
+        this.emotionAnalyses.delete(id);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+
+  async deleteEmotionRollupsBefore(bucketSeconds: number, before: Date): Promise<number> {
+    let deleted = 0;
+    for (const [key, rollup] of Array.from(this.emotionRollups.entries())) {
+      if (rollup.bucketSeconds === bucketSeconds && rollup.bucketStart < before) {
+        this.emotionRollups.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
   }
 
   // Chat Messages
@@ -123,6 +434,7 @@ export class MemStorage implements IStorage {
       ...insertMessage,
       sessionId: insertMessage.sessionId || null,
       emotionContext: insertMessage.emotionContext || null,
+      provider: insertMessage.provider || null,
       id,
       timestamp: new Date()
     };
@@ -135,6 +447,548 @@ export class MemStorage implements IStorage {
       .filter(message => message.sessionId === sessionId)
       .sort((a, b) => a.timestamp!.getTime() - b.timestamp!.getTime());
   }
+
+  // Provider Credentials
+  async listProviderCredentials(): Promise<ProviderCredential[]> {
+    return Array.from(this.providerCredentials.values());
+  }
+
+  async upsertProviderCredential(credential: InsertProviderCredential): Promise<ProviderCredential> {
+    const existing = this.providerCredentials.get(credential.providerId);
+    const now = new Date();
+    const stored: ProviderCredential = {
+      ...credential,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      lastValidatedAt: credential.lastValidatedAt ?? null
+    };
+    this.providerCredentials.set(credential.providerId, stored);
+    return stored;
+  }
+
+  async deleteProviderCredential(providerId: string): Promise<boolean> {
+    return this.providerCredentials.delete(providerId);
+  }
+
+  // Bulk loading
+  async importRows(rows: ImportRows): Promise<Record<keyof ImportRows, number>> {
+    let userCount = 0;
+    for (const row of rows.users) {
+      const id = row.id ?? randomUUID();
+      if (this.users.has(id) || await this.getUserByName(row.name)) continue;
+      this.users.set(id, {
+        email: null,
+        age: null,
+        gender: null,
+        ageSource: "default",
+        ageConfidence: null,
+        genderSource: "default",
+        genderConfidence: null,
+        passwordHash: null,
+        isGuest: false,
+        createdAt: new Date(),
+        ...row,
+        id
+      });
+      userCount++;
+    }
+
+    const newSessionIds = new Set<string>();
+    for (const row of rows.sessions) {
+      const id = row.id ?? randomUUID();
+      if (this.sessions.has(id)) continue;
+      this.sessions.set(id, {
+        userId: null,
+        startTime: new Date(),
+        endTime: null,
+        isActive: true,
+        lastActivityAt: new Date(),
+        pinnedProviderId: null,
+        allowProviderFallback: true,
+        ...row,
+        id
+      });
+      newSessionIds.add(id);
+    }
+
+    const analyses = rows.emotionAnalyses.filter(row => newSessionIds.has(row.sessionId!));
+    for (const row of analyses) {
+      const id = row.id ?? randomUUID();
+      this.emotionAnalyses.set(id, {
+        sessionId: null,
+        timestamp: new Date(),
+        age: null,
+        gender: null,
+        confidence: null,
+        subjectPresent: true,
+        ...row,
+        id
+      });
+    }
+
+    const rollups = rows.emotionRollups.filter(row => newSessionIds.has(row.sessionId));
+    for (const row of rollups) {
+      this.emotionRollups.set(`${row.sessionId}/${row.bucketSeconds}/${row.bucketStart.getTime()}`, {
+        weightedEmotionSums: {},
+        weightSum: 0,
+        confidenceSum: 0,
+        confidenceCount: 0,
+        ...row
+      });
+    }
+
+    const messages = rows.chatMessages.filter(row => newSessionIds.has(row.sessionId!));
+    for (const row of messages) {
+      const id = row.id ?? randomUUID();
+      this.chatMessages.set(id, {
+        sessionId: null,
+        emotionContext: null,
+        provider: null,
+        timestamp: new Date(),
+        ...row,
+        id
+      });
+    }
+
+    return {
+      users: userCount,
+      sessions: newSessionIds.size,
+      emotionAnalyses: analyses.length,
+      emotionRollups: rollups.length,
+      chatMessages: messages.length
+    };
+  }
+}
+
+export class DbStorage implements IStorage {
+  // The pool is shared with the login session store
+  constructor(private db: Database, readonly pool: Pool) {}
+
+  async assertSchemaUpToDate(): Promise<void> {
+    await assertSchemaUpToDate(this.db);
+  }
+
+  // Users
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByName(name: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.name, name));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUserAccount): Promise<User> {
+    try {
+      const [user] = await this.db.insert(users).values(insertUser).returning();
+      return user;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new UserNameTakenError(insertUser.name);
+      throw error;
+    }
+  }
+
+  async claimGuestUser(guestId: string, claim: GuestClaim): Promise<User | undefined> {
+    try {
+      // Conditional on is_guest so two concurrent claims cannot both succeed
+      const [user] = await this.db
+        .update(users)
+        .set({
+          name: claim.name,
+          email: claim.email ?? null,
+          passwordHash: claim.passwordHash,
+          isGuest: false
+        })
+        .where(and(eq(users.id, guestId), eq(users.isGuest, true)))
+        .returning();
+      return user;
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new UserNameTakenError(claim.name);
+      throw error;
+    }
+  }
+
+  async updateUserProfile(id: string, update: UserProfileUpdate): Promise<User | undefined> {
+    // Estimates are guarded in SQL rather than by reading the row first, so a
+    // concurrent self-report cannot be overwritten
+    const unlessSelfReported = (sourceColumn: AnyColumn, column: AnyColumn, value: unknown) =>
+      sql`CASE WHEN ${sourceColumn} = 'self_reported' THEN ${column} ELSE ${value} END`;
+
+    const set: Record<string, unknown> = {};
+    if (update.age) {
+      const age = demographicColumns(update.age);
+      const estimated = update.age.source === "model_estimated";
+      set.age = estimated ? unlessSelfReported(users.ageSource, users.age, age.value) : age.value;
+      set.ageSource = estimated ? unlessSelfReported(users.ageSource, users.ageSource, age.source) : age.source;
+      set.ageConfidence = estimated
+        ? unlessSelfReported(users.ageSource, users.ageConfidence, age.confidence)
+        : age.confidence;
+    }
+    if (update.gender) {
+      const gender = demographicColumns(update.gender);
+      const estimated = update.gender.source === "model_estimated";
+      set.gender = estimated ? unlessSelfReported(users.genderSource, users.gender, gender.value) : gender.value;
+      set.genderSource = estimated
+        ? unlessSelfReported(users.genderSource, users.genderSource, gender.source)
+        : gender.source;
+      set.genderConfidence = estimated
+        ? unlessSelfReported(users.genderSource, users.genderConfidence, gender.confidence)
+        : gender.confidence;
+    }
+
+    if (Object.keys(set).length === 0) {
+      return this.getUser(id);
+    }
+    const [user] = await this.db.update(users).set(set).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async getUserDataRows(userId: string): Promise<UserDataRows> {
+    const userSessionIds = this.db.select({ id: sessions.id }).from(sessions).where(eq(sessions.userId, userId));
+    const [userChatSessions, analyses, rollups, messages] = await Promise.all([
+      this.db.select().from(sessions).where(eq(sessions.userId, userId)).orderBy(asc(sessions.startTime)),
+      this.db
+        .select()
+        .from(emotionAnalyses)
+        .where(inArray(emotionAnalyses.sessionId, userSessionIds))
+        .orderBy(asc(emotionAnalyses.timestamp)),
+      this.db
+        .select()
+        .from(emotionRollups)
+        .where(inArray(emotionRollups.sessionId, userSessionIds))
+        .orderBy(asc(emotionRollups.bucketStart)),
+      this.db
+        .select()
+        .from(chatMessages)
+        .where(inArray(chatMessages.sessionId, userSessionIds))
+        .orderBy(asc(chatMessages.timestamp)),
+    ]);
+    return { sessions: userChatSessions, emotionAnalyses: analyses, emotionRollups: rollups, chatMessages: messages };
+  }
+
+  async deleteUser(userId: string): Promise<DataDeletionAudit | undefined> {
+    return this.db.transaction(async tx => {
+      const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+      if (!user) return undefined;
+
+      // Children first, for the foreign keys to the sessions
+      const userSessionIds = tx.select({ id: sessions.id }).from(sessions).where(eq(sessions.userId, userId));
+      const analyses = await tx.delete(emotionAnalyses).where(inArray(emotionAnalyses.sessionId, userSessionIds));
+      const rollups = await tx.delete(emotionRollups).where(inArray(emotionRollups.sessionId, userSessionIds));
+      const messages = await tx.delete(chatMessages).where(inArray(chatMessages.sessionId, userSessionIds));
+      const deletedSessions = await tx.delete(sessions).where(eq(sessions.userId, userId));
+      await tx.delete(users).where(eq(users.id, userId));
+      // Login sessions hold the user id in the passport data
+      await tx.delete(userSessions).where(sql`${userSessions.sess} -> 'passport' ->> 'user' = ${userId}`);
+
+      const [audit] = await tx
+        .insert(dataDeletionAudits)
+        .values({
+          wasGuest: user.isGuest ?? false,
+          sessionCount: deletedSessions.rowCount ?? 0,
+          emotionAnalysisCount: analyses.rowCount ?? 0,
+          emotionRollupCount: rollups.rowCount ?? 0,
+          chatMessageCount: messages.rowCount ?? 0,
+        })
+        .returning();
+      return audit;
+    });
+  }
+
+  // Sessions
+  async getSession(id: string): Promise<Session | undefined> {
+    const [session] = await this.db.select().from(sessions).where(eq(sessions.id, id));
+    return session;
+  }
+
+  async createSession(insertSession: InsertSession): Promise<Session> {
+    const [session] = await this.db.insert(sessions).values(insertSession).returning();
+    return session;
+  }
+
+  async updateSession(id: string, updates: Partial<Session>): Promise<Session | undefined> {
+    const { id: _id, ...changes } = updates;
+    if (Object.keys(changes).length === 0) return this.getSession(id);
+
+    const [session] = await this.db
+      .update(sessions)
+      .set(changes)
+      .where(eq(sessions.id, id))
+      .returning();
+    return session;
+  }
+
+  async getActiveSessionByUserId(userId: string): Promise<Session | undefined> {
+    const [session] = await this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), eq(sessions.isActive, true)));
+    return session;
+  }
+
+  async listSessionsByUserId(userId: string, page: SessionListQuery): Promise<{ sessions: Session[]; total: number }> {
+    const [userSessions, [{ total }]] = await Promise.all([
+      this.db
+        .select()
+        .from(sessions)
+        .where(eq(sessions.userId, userId))
+        .orderBy(desc(sessions.startTime))
+        .limit(page.limit)
+        .offset(page.offset),
+      this.db.select({ total: count() }).from(sessions).where(eq(sessions.userId, userId)),
+    ]);
+    return { sessions: userSessions, total };
+  }
+
+  async getSessionsByUserIdInRange(userId: string, from: Date, to: Date): Promise<Session[]> {
+    return this.db
+      .select()
+      .from(sessions)
+      .where(and(eq(sessions.userId, userId), gte(sessions.startTime, from), lt(sessions.startTime, to)))
+      .orderBy(asc(sessions.startTime));
+  }
+
+  async endIdleSessions(idleSince: Date): Promise<Session[]> {
+    return this.db
+      .update(sessions)
+      .set({ isActive: false, endTime: sql`${sessions.lastActivityAt}` })
+      .where(and(eq(sessions.isActive, true), lt(sessions.lastActivityAt, idleSince)))
+      .returning();
+  }
+
+  // Emotion Analyses
+  async saveEmotionSamples(samples: NewEmotionSample[], rollups: InsertEmotionRollup[]): Promise<EmotionAnalysis[]> {
+    if (samples.length === 0) return [];
+
+    return this.db.transaction(async tx => {
+      const analyses = await tx.insert(emotionAnalyses).values(samples).returning();
+      if (rollups.length > 0) {
+        // Buckets that already exist are merged: counts and sums add up,
+        // maxima keep the larger value per emotion
+        await tx
+          .insert(emotionRollups)
+          .values(rollups)
+          .onConflictDoUpdate({
+            target: [emotionRollups.sessionId, emotionRollups.bucketSeconds, emotionRollups.bucketStart],
+            set: {
+              sampleCount: sql`${emotionRollups.sampleCount} + excluded.sample_count`,
+              emotionSums: sql`(
+                SELECT jsonb_object_agg(key, COALESCE((${emotionRollups.emotionSums} ->> key)::float8, 0) + value::float8)
+                FROM jsonb_each_text(excluded.emotion_sums)
+              )`,
+              emotionMaxima: sql`(
+                SELECT jsonb_object_agg(key, GREATEST(COALESCE((${emotionRollups.emotionMaxima} ->> key)::float8, 0), value::float8))
+                FROM jsonb_each_text(excluded.emotion_maxima)
+              )`,
+              weightedEmotionSums: sql`(
+                SELECT jsonb_object_agg(key, COALESCE((${emotionRollups.weightedEmotionSums} ->> key)::float8, 0) + value::float8)
+                FROM jsonb_each_text(excluded.weighted_emotion_sums)
+              )`,
+              weightSum: sql`${emotionRollups.weightSum} + excluded.weight_sum`,
+              confidenceSum: sql`${emotionRollups.confidenceSum} + excluded.confidence_sum`,
+              confidenceCount: sql`${emotionRollups.confidenceCount} + excluded.confidence_count`,
+            },
+          });
+      }
+      return analyses;
+    });
+  }
+
+  async getEmotionAnalysesBySession(sessionId: string): Promise<EmotionAnalysis[]> {
+    return this.db
+      .select()
+      .from(emotionAnalyses)
+      .where(eq(emotionAnalyses.sessionId, sessionId))
+      .orderBy(asc(emotionAnalyses.timestamp));
+  }
+
+  async getEmotionRollups(sessionId: string, bucketSeconds: number): Promise<EmotionRollup[]> {
+    return this.db
+      .select()
+      .from(emotionRollups)
+      .where(and(eq(emotionRollups.sessionId, sessionId), eq(emotionRollups.bucketSeconds, bucketSeconds)))
+      .orderBy(asc(emotionRollups.bucketStart));
+  }
+
+  async aggregateEmotionRollups(sessionId: string, range: RollupRange): Promise<EmotionRollup[]> {
+    const rows = await this.db
+      .select(this.rollupTotals(range))
+      .from(emotionRollups)
+      .where(and(eq(emotionRollups.sessionId, sessionId), this.rollupRangeFilter(range)))
+      // By position: the bucket expression is parameterized, so repeating it
+      // would not count as the same expression
+      .groupBy(sql`1, 2`)
+      .orderBy(sql`2`);
+
+    return rows.map(row => ({ ...row, bucketSeconds: range.bucketSeconds }));
+  }
+
+  async aggregateUserEmotionRollups(userId: string, range: RollupRange): Promise<EmotionRollup[]> {
+    const rows = await this.db
+      .select(this.rollupTotals(range))
+      .from(emotionRollups)
+      .innerJoin(sessions, eq(sessions.id, emotionRollups.sessionId))
+      .where(and(eq(sessions.userId, userId), this.rollupRangeFilter(range)))
+      .groupBy(sql`1, 2`)
+      .orderBy(sql`2`);
+
+    return rows.map(row => ({ ...row, bucketSeconds: range.bucketSeconds }));
+  }
+
+  // Rollups of the source tier in [from, to)
+  private rollupRangeFilter(range: RollupRange) {
+    return and(
+      eq(emotionRollups.bucketSeconds, range.sourceBucketSeconds),
+      gte(emotionRollups.bucketStart, range.from),
+      lt(emotionRollups.bucketStart, range.to)
+    );
+  }
+
+  // Session, bucket and the rollup sums of each group of rows
+  private rollupTotals(range: RollupRange) {
+    // Per-emotion sum or maximum over the jsonb columns of the grouped rows
+    const perEmotion = (column: AnyColumn, aggregate: "sum" | "max") => sql`jsonb_build_object(${sql.join(
+      EMOTION_KEYS.map(key => sql`${key}::text, ${sql.raw(aggregate)}((${column} ->> ${key})::float8)`),
+      sql`, `
+    )})`;
+    const origin = (range.origin ?? new Date(0)).toISOString();
+
+    return {
+      sessionId: emotionRollups.sessionId,
+      bucketStart: sql<Date>`date_bin(make_interval(secs => ${range.bucketSeconds}), ${emotionRollups.bucketStart}, ${origin}::timestamp)`
+        .mapWith(emotionRollups.bucketStart),
+      sampleCount: sql<number>`sum(${emotionRollups.sampleCount})::int`,
+      emotionSums: perEmotion(emotionRollups.emotionSums, "sum"),
+      emotionMaxima: perEmotion(emotionRollups.emotionMaxima, "max"),
+      weightedEmotionSums: perEmotion(emotionRollups.weightedEmotionSums, "sum"),
+      weightSum: sql<number>`sum(${emotionRollups.weightSum})::float8`,
+      confidenceSum: sql<number>`sum(${emotionRollups.confidenceSum})::float8`,
+      confidenceCount: sql<number>`sum(${emotionRollups.confidenceCount})::int`,
+    };
+  }
+
+  async deleteEmotionAnalysesBefore(before: Date): Promise<number> {
+    // Can be many rows, so only the count comes back
+    const result = await this.db.delete(emotionAnalyses).where(lt(emotionAnalyses.timestamp, before));
+    return result.rowCount ?? 0;
+  }
+
+  async deleteEmotionRollupsBefore(bucketSeconds: number, before: Date): Promise<number> {
+    const result = await this.db
+      .delete(emotionRollups)
+      .where(and(eq(emotionRollups.bucketSeconds, bucketSeconds), lt(emotionRollups.bucketStart, before)));
+    return result.rowCount ?? 0;
+  }
+
+  // Chat Messages
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const [message] = await this.db.insert(chatMessages).values(insertMessage).returning();
+    return message;
+  }
+
+  async getChatMessagesBySession(sessionId: string): Promise<ChatMessage[]> {
+    return this.db
+      .select()
+      .from(chatMessages)
+      .where(eq(chatMessages.sessionId, sessionId))
+      .orderBy(asc(chatMessages.timestamp));
+  }
+
+  // Provider Credentials
+  async listProviderCredentials(): Promise<ProviderCredential[]> {
+    return this.db.select().from(providerCredentials);
+  }
+
+  async upsertProviderCredential(credential: InsertProviderCredential): Promise<ProviderCredential> {
+    const now = new Date();
+    const [stored] = await this.db
+      .insert(providerCredentials)
+      .values({ ...credential, createdAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: providerCredentials.providerId,
+        set: {
+          ciphertext: credential.ciphertext,
+          iv: credential.iv,
+          authTag: credential.authTag,
+          keySuffix: credential.keySuffix,
+          lastValidatedAt: credential.lastValidatedAt ?? null,
+          updatedAt: now
+        }
+      })
+      .returning();
+    return stored;
+  }
+
+  async deleteProviderCredential(providerId: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(providerCredentials)
+      .where(eq(providerCredentials.providerId, providerId))
+      .returning({ providerId: providerCredentials.providerId });
+    return deleted.length > 0;
+  }
+
+  // Bulk loading
+  async importRows(rows: ImportRows): Promise<Record<keyof ImportRows, number>> {
+    return this.db.transaction(async tx => {
+      const insertedUsers = rows.users.length > 0
+        ? await tx.insert(users).values(rows.users).onConflictDoNothing().returning({ id: users.id })
+        : [];
+      const insertedSessions = rows.sessions.length > 0
+        ? await tx.insert(sessions).values(rows.sessions).onConflictDoNothing().returning({ id: sessions.id })
+        : [];
+
+      const newSessionIds = new Set(insertedSessions.map(session => session.id));
+      const analyses = rows.emotionAnalyses.filter(row => newSessionIds.has(row.sessionId!));
+      const rollups = rows.emotionRollups.filter(row => newSessionIds.has(row.sessionId));
+      const messages = rows.chatMessages.filter(row => newSessionIds.has(row.sessionId!));
+
+      if (analyses.length > 0) await tx.insert(emotionAnalyses).values(analyses);
+      if (rollups.length > 0) await tx.insert(emotionRollups).values(rollups);
+      if (messages.length > 0) await tx.insert(chatMessages).values(messages);
+
+      return {
+        users: insertedUsers.length,
+        sessions: insertedSessions.length,
+        emotionAnalyses: analyses.length,
+        emotionRollups: rollups.length,
+        chatMessages: messages.length,
+      };
+    });
+  }
 }
 
-export const storage = new MemStorage();
+// STORAGE_DRIVER picks the backend explicitly ("memory" or "postgres");
+// otherwise Postgres is used whenever DATABASE_URL is configured.
+function createStorage(): IStorage {
+  const driver = process.env.STORAGE_DRIVER || (process.env.DATABASE_URL ? "postgres" : "memory");
+
+  switch (driver) {
+    case "memory":
+      console.log("💾 Using in-memory storage (data is lost on restart)");
+      return new MemStorage();
+    case "postgres": {
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE_DRIVER=postgres requires DATABASE_URL to be set");
+      }
+      const { pool, db } = createDb(process.env.DATABASE_URL);
+      console.log("🐘 Using PostgreSQL storage");
+      return new DbStorage(db, pool);
+    }
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+}
+
+export const storage = createStorage();
+
+// Refuses to start against a database that is missing checked-in migrations.
+// In-memory storage starts with the development fixtures when LOAD_FIXTURES=true.
+export async function ensureStorageReady(): Promise<void> {
+  if (storage instanceof DbStorage) {
+    await storage.assertSchemaUpToDate();
+  } else if (process.env.LOAD_FIXTURES === "true") {
+    const counts = await loadFixtures(storage);
+    console.log(`🌱 Loaded ${counts.users} fixture users with ${counts.sessions} sessions`);
+  }
+}
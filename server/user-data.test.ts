@@ -0,0 +1,52 @@
+import { before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { storage } from "./storage";
+import { FIXTURE_IDS, loadFixtures } from "./fixtures";
+import { exportUserData } from "./user-data";
+import type { User } from "@shared/schema";
+
+const { users, sessions } = FIXTURE_IDS;
+
+describe("user data", () => {
+  let layla: User;
+
+  before(async () => {
+    await loadFixtures(storage);
+    layla = (await storage.getUser(users.layla))!;
+  });
+
+  it("exports each of the user's sessions with its own rows", async () => {
+    const exported = await exportUserData(layla);
+
+    assert.equal("passwordHash" in exported.user, false);
+    assert.deepEqual(exported.sessions.map(session => session.id), [sessions.laylaPast, sessions.laylaActive]);
+    for (const session of exported.sessions) {
+      assert.deepEqual(session.emotionAnalyses, await storage.getEmotionAnalysesBySession(session.id));
+      assert.ok(session.emotionRollups.every(rollup => rollup.sessionId === session.id));
+      assert.deepEqual(session.chatMessages, await storage.getChatMessagesBySession(session.id));
+    }
+  });
+
+  it("erases the user with everything stored about them, and nothing else", async () => {
+    const rows = await storage.getUserDataRows(users.layla);
+    const omarRows = await storage.getUserDataRows(users.omar);
+
+    const audit = await storage.deleteUser(users.layla);
+
+    assert.deepEqual(
+      [audit?.sessionCount, audit?.emotionAnalysisCount, audit?.emotionRollupCount, audit?.chatMessageCount],
+      [rows.sessions.length, rows.emotionAnalyses.length, rows.emotionRollups.length, rows.chatMessages.length]
+    );
+    assert.equal(audit?.wasGuest, false);
+    assert.equal(await storage.getUser(users.layla), undefined);
+    assert.equal(await storage.getSession(sessions.laylaPast), undefined);
+    assert.deepEqual(await storage.getEmotionAnalysesBySession(sessions.laylaActive), []);
+    assert.deepEqual(await storage.getEmotionRollups(sessions.laylaPast, 60), []);
+    assert.deepEqual(await storage.getChatMessagesBySession(sessions.laylaPast), []);
+    assert.deepEqual(await storage.getUserDataRows(users.omar), omarRows);
+  });
+
+  it("reports a user that is already gone", async () => {
+    assert.equal(await storage.deleteUser(users.layla), undefined);
+  });
+});
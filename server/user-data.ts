@@ -0,0 +1,33 @@
+import { storage } from "./storage";
+import { toPublicUser } from "./auth";
+import type { User, UserDataExport } from "@shared/schema";
+
+function groupBySession<T extends { sessionId: string | null }>(rows: T[]): Map<string | null, T[]> {
+  const groups = new Map<string | null, T[]>();
+  for (const row of rows) {
+    const group = groups.get(row.sessionId);
+    if (group) group.push(row);
+    else groups.set(row.sessionId, [row]);
+  }
+  return groups;
+}
+
+// Everything stored about the user, each session with its own samples,
+// rollups and messages
+export async function exportUserData(user: User): Promise<UserDataExport> {
+  const rows = await storage.getUserDataRows(user.id);
+  const analyses = groupBySession(rows.emotionAnalyses);
+  const rollups = groupBySession(rows.emotionRollups);
+  const messages = groupBySession(rows.chatMessages);
+
+  return {
+    exportedAt: new Date(),
+    user: toPublicUser(user),
+    sessions: rows.sessions.map(session => ({
+      ...session,
+      emotionAnalyses: analyses.get(session.id) ?? [],
+      emotionRollups: rollups.get(session.id) ?? [],
+      chatMessages: messages.get(session.id) ?? [],
+    })),
+  };
+}
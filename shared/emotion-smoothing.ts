@@ -0,0 +1,190 @@
+import { EMOTION_KEYS, type EmotionData } from "./schema";
+
+export type EmotionName = keyof EmotionData;
+
+// One emotion estimate on its way through the smoothing stages
+export interface EmotionReading {
+  emotions: EmotionData;
+  // Milliseconds since the epoch
+  timestamp: number;
+  // Detection confidence in percent; readings without one count fully
+  confidence?: number | null;
+  // Detections the reading stands for, e.g. the samples of a rollup bucket
+  count?: number;
+}
+
+// A smoothing step. Stages keep their own history and are chained, each
+// receiving what the previous one returned.
+export interface SmoothingStage {
+  apply(reading: EmotionReading): EmotionReading;
+  reset(): void;
+}
+
+export interface SmoothingOptions {
+  // Readings the per-emotion median is taken over; 1 turns the filter off
+  medianWindow: number;
+  // Time after which a new reading at full confidence has moved the average
+  // halfway; lower confidence moves it less
+  emaHalfLifeMs: number;
+  // Points a challenger has to lead the current dominant emotion by
+  hysteresisMargin: number;
+  // How long the challenger has to keep that lead before it takes over
+  hysteresisDwellMs: number;
+}
+
+export const DEFAULT_SMOOTHING_OPTIONS: SmoothingOptions = {
+  medianWindow: 5,
+  emaHalfLifeMs: 1500,
+  hysteresisMargin: 10,
+  hysteresisDwellMs: 2000,
+};
+
+function emptyEmotions(): EmotionData {
+  return { happy: 0, sad: 0, angry: 0, surprised: 0, fearful: 0, disgusted: 0, neutral: 0 };
+}
+
+function readingWeight(reading: EmotionReading): number {
+  return reading.confidence == null ? 1 : Math.min(100, Math.max(0, reading.confidence)) / 100;
+}
+
+// The emotion with the highest value, without any smoothing
+export function strongestEmotion(emotions: EmotionData): EmotionName {
+  return EMOTION_KEYS.reduce((best, key) => ((emotions[key] ?? 0) > (emotions[best] ?? 0) ? key : best));
+}
+
+// Per-emotion median of the last `window` readings; drops single-frame spikes
+export function createMedianFilter(window: number): SmoothingStage {
+  let history: EmotionData[] = [];
+
+  return {
+    apply(reading) {
+      history = [...history, reading.emotions].slice(-Math.max(1, window));
+      const emotions = emptyEmotions();
+      for (const key of EMOTION_KEYS) {
+        const values = history.map(entry => entry[key] ?? 0).sort((a, b) => a - b);
+        const middle = Math.floor(values.length / 2);
+        emotions[key] = values.length % 2 === 1 ? values[middle] : (values[middle - 1] + values[middle]) / 2;
+      }
+      return { ...reading, emotions };
+    },
+    reset() {
+      history = [];
+    },
+  };
+}
+
+// Exponential moving average over time. A reading's confidence scales the
+// time it counts for, so uncertain frames barely move the average.
+export function createConfidenceWeightedEma(halfLifeMs: number): SmoothingStage {
+  let average: EmotionData | null = null;
+  let lastTimestamp = 0;
+
+  return {
+    apply(reading) {
+      if (!average || halfLifeMs <= 0) {
+        average = { ...reading.emotions };
+      } else {
+        const elapsed = Math.max(0, reading.timestamp - lastTimestamp);
+        const alpha = 1 - Math.pow(2, -(elapsed * readingWeight(reading)) / halfLifeMs);
+        const next = emptyEmotions();
+        for (const key of EMOTION_KEYS) {
+          next[key] = average[key] + alpha * ((reading.emotions[key] ?? 0) - average[key]);
+        }
+        average = next;
+      }
+      lastTimestamp = Math.max(lastTimestamp, reading.timestamp);
+      return { ...reading, emotions: { ...average } };
+    },
+    reset() {
+      average = null;
+      lastTimestamp = 0;
+    },
+  };
+}
+
+// Keeps the dominant emotion until another one clearly and lastingly beats it,
+// so a label shown to the user does not flicker between two close emotions
+export function createDominantEmotionTracker(margin: number, dwellMs: number) {
+  let current: EmotionName | null = null;
+  let challenger: { emotion: EmotionName; since: number } | null = null;
+
+  return {
+    update(reading: EmotionReading): EmotionName {
+      const strongest = strongestEmotion(reading.emotions);
+      if (current === null) {
+        current = strongest;
+      } else if (strongest === current || reading.emotions[strongest] - reading.emotions[current] < margin) {
+        challenger = null;
+      } else {
+        if (challenger?.emotion !== strongest) {
+          challenger = { emotion: strongest, since: reading.timestamp };
+        }
+        if (reading.timestamp - challenger.since >= dwellMs) {
+          current = strongest;
+          challenger = null;
+        }
+      }
+      return current;
+    },
+    get current(): EmotionName | null {
+      return current;
+    },
+    reset() {
+      current = null;
+      challenger = null;
+    },
+  };
+}
+
+export interface SmoothedEmotion {
+  emotions: EmotionData;
+  dominantEmotion: EmotionName;
+}
+
+// Median filter, then the confidence-weighted average, then hysteresis on the
+// dominant emotion. Extra stages run after the built-in ones.
+export function createEmotionSmoother(
+  options: Partial<SmoothingOptions> = {},
+  extraStages: SmoothingStage[] = []
+) {
+  const settings = { ...DEFAULT_SMOOTHING_OPTIONS, ...options };
+  const stages = [
+    createMedianFilter(settings.medianWindow),
+    createConfidenceWeightedEma(settings.emaHalfLifeMs),
+    ...extraStages,
+  ];
+  const tracker = createDominantEmotionTracker(settings.hysteresisMargin, settings.hysteresisDwellMs);
+
+  return {
+    push(reading: EmotionReading): SmoothedEmotion {
+      const smoothed = stages.reduce((current, stage) => stage.apply(current), reading);
+      return { emotions: smoothed.emotions, dominantEmotion: tracker.update(smoothed) };
+    },
+    reset() {
+      stages.forEach(stage => stage.reset());
+      tracker.reset();
+    },
+  };
+}
+
+// The dominant emotion of a whole recording: every reading is smoothed in
+// time order, and the emotion that stayed dominant for the most detections wins
+export function summarizeDominantEmotion(
+  readings: EmotionReading[],
+  options: Partial<SmoothingOptions> = {}
+): EmotionName | null {
+  const smoother = createEmotionSmoother(options);
+  const detections = new Map<EmotionName, number>();
+  for (const reading of [...readings].sort((a, b) => a.timestamp - b.timestamp)) {
+    const { dominantEmotion } = smoother.push(reading);
+    detections.set(dominantEmotion, (detections.get(dominantEmotion) ?? 0) + (reading.count ?? 1));
+  }
+
+  let dominant: EmotionName | null = null;
+  detections.forEach((count, emotion) => {
+    if (dominant === null || count > detections.get(dominant)!) {
+      dominant = emotion;
+    }
+  });
+  return dominant;
+}
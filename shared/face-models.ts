@@ -0,0 +1,21 @@
+// Face-API model files served by our own server, pinned to the installed
+// @vladmandic/face-api release. Updating the package means updating the
+// version and the hashes below, otherwise the server refuses to serve them.
+export const FACE_MODEL_VERSION = "1.7.15";
+
+// Served under this path followed by the version, e.g. /models/face-api/1.7.15/
+export const FACE_MODEL_PATH = "/models/face-api";
+
+// SHA-256 of every file the client loads, base64 as in Subresource Integrity
+export const FACE_MODEL_FILES: Record<string, string> = {
+  "tiny_face_detector_model-weights_manifest.json": "XRr0hJrEjVuYX0qbFgEMUSNT3db8xj1Q/QvJ6eZCluU=",
+  "tiny_face_detector_model.bin": "t1A8598xA5scQzFqm4Zcq2pw3XSMxgLT+ii1UVA8OHE=",
+  "face_landmark_68_model-weights_manifest.json": "ykiGY5+G6Zs5/tDBVfgbYzFyJXc72WFnFuiHsBUzick=",
+  "face_landmark_68_model.bin": "RhHvZch9g20D1oSzDuxNGV2LIZ+h3Vj8WJRYMca5KZs=",
+  "face_recognition_model-weights_manifest.json": "y6/6UBsLknWhK2M1emhD5+MMBU4ckVHhpfh5sm4ymGs=",
+  "face_recognition_model.bin": "tBPkINaECyd1+6MgCNtvPN2wfUhZZ/tCz883nBaoxYk=",
+  "face_expression_model-weights_manifest.json": "WzScF8eDbaUG4DQizWRhx0CF2LsnE61BFGR9xdKBdMg=",
+  "face_expression_model.bin": "mphA8s8fTH6rlfGXUSVpNFwA0kJnVNRgi5KvMOAwDz0=",
+  "age_gender_model-weights_manifest.json": "dLYL8+v5gb9OZh6cyjoYVhThCyXXlxGLYuKmjT/yVp8=",
+  "age_gender_model.bin": "SfkrvAr+8jQsQ4XkorCsttenJ8bwqlOUmXGagaz5q6o=",
+};
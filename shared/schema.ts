@@ -1,5 +1,7 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, jsonb, integer, boolean } from "drizzle-orm/pg-core";
+import {
+  pgTable, text, varchar, timestamp, jsonb, json, integer, real, boolean, index, uniqueIndex, primaryKey
+} from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -9,8 +11,18 @@ export const users = pgTable("users", {
   email: text("email"),
   age: integer("age"),
   gender: text("gender"),
+  // Where each demographic value came from (see demographicSources) and, for
+  // model estimates, how confident the model was as a percentage
+  ageSource: text("age_source").notNull().default("default"),
+  ageConfidence: integer("age_confidence"),
+  genderSource: text("gender_source").notNull().default("default"),
+  genderConfidence: integer("gender_confidence"),
+  passwordHash: text("password_hash"), // scrypt hash; null for guest accounts
+  isGuest: boolean("is_guest").default(false),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("users_name_unique").on(table.name),
+]);
 
 export const sessions = pgTable("sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -18,7 +30,14 @@ export const sessions = pgTable("sessions", {
   startTime: timestamp("start_time").defaultNow(),
   endTime: timestamp("end_time"),
   isActive: boolean("is_active").default(true),
-});
+  // Last chat message or emotion sample; idle sessions are ended from it
+  lastActivityAt: timestamp("last_activity_at").defaultNow(),
+  pinnedProviderId: text("pinned_provider_id"), // AI provider this session is pinned to
+  allowProviderFallback: boolean("allow_provider_fallback").default(true),
+}, (table) => [
+  index("sessions_user_start_idx").on(table.userId, table.startTime),
+  index("sessions_active_activity_idx").on(table.isActive, table.lastActivityAt),
+]);
 
 export const emotionAnalyses = pgTable("emotion_analyses", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -28,7 +47,32 @@ export const emotionAnalyses = pgTable("emotion_analyses", {
   age: integer("age"),
   gender: text("gender"),
   confidence: integer("confidence"), // percentage
-});
+  // false when the camera saw faces but not the tracked subject; such frames
+  // carry no emotions and are left out of the rollups
+  subjectPresent: boolean("subject_present").notNull().default(true),
+}, (table) => [
+  index("emotion_analyses_session_time_idx").on(table.sessionId, table.timestamp),
+  // Raw samples are pruned by age
+  index("emotion_analyses_time_idx").on(table.timestamp),
+]);
+
+// Downsampled emotion timeline: one row per session and time bucket for each
+// configured bucket size. Raw samples expire, rollups outlive them.
+export const emotionRollups = pgTable("emotion_rollups", {
+  sessionId: varchar("session_id").notNull().references(() => sessions.id),
+  bucketSeconds: integer("bucket_seconds").notNull(),
+  bucketStart: timestamp("bucket_start").notNull(),
+  sampleCount: integer("sample_count").notNull(),
+  emotionSums: jsonb("emotion_sums").notNull(), // EmotionData, summed over the samples
+  emotionMaxima: jsonb("emotion_maxima").notNull(), // EmotionData, highest value per emotion
+  weightedEmotionSums: jsonb("weighted_emotion_sums").notNull().default({}), // EmotionData, summed with each sample weighted by its confidence
+  weightSum: real("weight_sum").notNull().default(0), // sum of the sample weights
+  confidenceSum: real("confidence_sum").notNull().default(0),
+  confidenceCount: integer("confidence_count").notNull().default(0), // samples that had a confidence
+}, (table) => [
+  primaryKey({ columns: [table.sessionId, table.bucketSeconds, table.bucketStart] }),
+  index("emotion_rollups_bucket_idx").on(table.bucketSeconds, table.bucketStart),
+]);
 
 export const chatMessages = pgTable("chat_messages", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -36,9 +80,43 @@ export const chatMessages = pgTable("chat_messages", {
   isUser: boolean("is_user").notNull(),
   content: text("content").notNull(),
   emotionContext: jsonb("emotion_context"), // emotion data at time of message
+  provider: text("provider"), // AI provider that generated the reply
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// API keys entered at runtime, encrypted with AES-256-GCM before they are stored
+export const providerCredentials = pgTable("provider_credentials", {
+  providerId: varchar("provider_id").primaryKey(),
+  ciphertext: text("ciphertext").notNull(),
+  iv: text("iv").notNull(),
+  authTag: text("auth_tag").notNull(),
+  keySuffix: text("key_suffix").notNull(), // last characters, safe to show
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  lastValidatedAt: timestamp("last_validated_at"),
+});
+
+// One row per erased account, kept as a record that the erasure happened.
+// Holds only counts, nothing that identifies the user.
+export const dataDeletionAudits = pgTable("data_deletion_audits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  deletedAt: timestamp("deleted_at").notNull().defaultNow(),
+  wasGuest: boolean("was_guest").notNull(),
+  sessionCount: integer("session_count").notNull(),
+  emotionAnalysisCount: integer("emotion_analysis_count").notNull(),
+  emotionRollupCount: integer("emotion_rollup_count").notNull(),
+  chatMessageCount: integer("chat_message_count").notNull(),
+});
+
+// Login sessions, managed by connect-pg-simple (not the chat `sessions` table)
+export const userSessions = pgTable("user_sessions", {
+  sid: varchar("sid").primaryKey(),
+  sess: json("sess").notNull(),
+  expire: timestamp("expire", { precision: 6 }).notNull(),
+}, (table) => [
+  index("IDX_user_sessions_expire").on(table.expire),
+]);
+
 export const insertUserSchema = createInsertSchema(users).pick({
   name: true,
   email: true,
@@ -50,12 +128,90 @@ export const insertSessionSchema = createInsertSchema(sessions).pick({
   userId: true,
 });
 
+export const sessionListQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(100).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Longest timeline a single request may ask for, in buckets
+export const MAX_TIMELINE_BUCKETS = 1000;
+
+// Time range and bucket size (in seconds) of a session's emotion timeline;
+// the range defaults to the whole session
+export const emotionTimelineQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  bucket: z.coerce.number().int().min(1).max(24 * 60 * 60).default(60),
+}).refine(query => !query.from || !query.to || query.from < query.to, {
+  message: "from must be before to",
+});
+
+// Longest mood trend a single request may ask for, in periods
+export const MAX_TREND_PERIODS = 400;
+
+// Period size and time range of a user's mood trends. `utcOffset` is the
+// viewer's offset from UTC in minutes, so days start at their midnight.
+export const moodTrendQuerySchema = z.object({
+  period: z.enum(["day", "week"]).default("day"),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  utcOffset: z.coerce.number().int().min(-14 * 60).max(14 * 60).default(0),
+}).refine(query => !query.from || !query.to || query.from < query.to, {
+  message: "from must be before to",
+});
+
+// Raw samples as CSV, the conversation as JSON, or a printable HTML report.
+// Times in the report are shown at `utcOffset` minutes from UTC.
+export const sessionExportQuerySchema = z.object({
+  format: z.enum(["csv", "json", "html"]),
+  utcOffset: z.coerce.number().int().min(-14 * 60).max(14 * 60).default(0),
+});
+
+export const sessionProviderSchema = z.object({
+  providerId: z.string().min(1).nullable(),
+  allowFallback: z.boolean().default(true),
+});
+
 export const insertEmotionAnalysisSchema = createInsertSchema(emotionAnalyses).pick({
   sessionId: true,
   emotions: true,
   age: true,
   gender: true,
   confidence: true,
+  subjectPresent: true,
+});
+
+export const emotionDataSchema = z.object({
+  happy: z.number().min(0).max(100),
+  sad: z.number().min(0).max(100),
+  angry: z.number().min(0).max(100),
+  surprised: z.number().min(0).max(100),
+  fearful: z.number().min(0).max(100),
+  disgusted: z.number().min(0).max(100),
+  neutral: z.number().min(0).max(100),
+});
+
+export const EMOTION_KEYS = emotionDataSchema.keyof().options;
+
+// Keeps a full batch well under the JSON body limit
+export const MAX_EMOTION_BATCH_SIZE = 300;
+
+// One face detection, timestamped by the client when it was taken
+export const emotionSampleSchema = z.object({
+  timestamp: z.coerce.date(),
+  emotions: emotionDataSchema,
+  age: z.number().int().min(0).max(120).optional(),
+  gender: z.string().max(20).optional(),
+  confidence: z.number().min(0).max(100).optional(),
+  // Frames without the tracked subject are sent with false and zeroed emotions
+  subjectPresent: z.boolean().optional(),
+});
+
+export const emotionBatchSchema = z.object({
+  sessionId: z.string().min(1),
+  // Client clock when the batch was sent, used to correct for clock skew
+  sentAt: z.coerce.date().optional(),
+  samples: z.array(emotionSampleSchema).min(1).max(MAX_EMOTION_BATCH_SIZE),
 });
 
 export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
@@ -63,20 +219,176 @@ export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
   isUser: true,
   content: true,
   emotionContext: true,
+  provider: true,
+});
+
+export const signupSchema = z.object({
+  name: z.string().trim().min(2).max(50),
+  password: z.string().min(8).max(128),
+  email: z.string().trim().email().optional(),
+});
+
+export const loginSchema = z.object({
+  name: z.string().trim().min(1),
+  password: z.string().min(1),
+});
+
+// self_reported: entered by the user; model_estimated: guessed from the camera;
+// default: not provided by either
+export const demographicSources = ["self_reported", "model_estimated", "default"] as const;
+export type DemographicSource = typeof demographicSources[number];
+
+const demographicUpdate = <T extends z.ZodTypeAny>(value: T) => z.object({
+  // null clears a self-reported value
+  value: value.nullable(),
+  source: z.enum(["self_reported", "model_estimated"]),
+  confidence: z.number().min(0).max(100).optional(),
+}).refine(
+  update => update.source === "self_reported" || (update.value !== null && update.confidence !== undefined),
+  { message: "Model estimates need a value and a confidence" }
+);
+
+export const updateUserProfileSchema = z.object({
+  age: demographicUpdate(z.number().int().min(1).max(120)).optional(),
+  gender: demographicUpdate(z.enum(["male", "female"])).optional(),
+});
+
+// Registered accounts confirm an erasure with their password
+export const deleteAccountSchema = z.object({
+  password: z.string().max(200).optional(),
 });
 
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type InsertUserAccount = InsertUser & { passwordHash?: string | null; isGuest?: boolean };
+// What the API returns for a user; the password hash never leaves the server
+export type PublicUser = Omit<User, "passwordHash">;
+export type SignupData = z.infer<typeof signupSchema>;
+export type LoginData = z.infer<typeof loginSchema>;
+export type UserProfileUpdate = z.infer<typeof updateUserProfileSchema>;
+export type DeleteAccountData = z.infer<typeof deleteAccountSchema>;
+export type DataDeletionAudit = typeof dataDeletionAudits.$inferSelect;
+export type InsertDataDeletionAudit = typeof dataDeletionAudits.$inferInsert;
 
 export type InsertSession = z.infer<typeof insertSessionSchema>;
 export type Session = typeof sessions.$inferSelect;
+export type SessionListQuery = z.infer<typeof sessionListQuerySchema>;
+
+// One page of a user's sessions, newest first
+export interface SessionPage {
+  sessions: Session[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+export type EmotionTimelineQuery = z.infer<typeof emotionTimelineQuerySchema>;
+
+// Aggregated emotions of one time bucket; buckets without samples are omitted
+export interface EmotionTimelineBucket {
+  start: Date;
+  sampleCount: number;
+  // Means weighted by detection confidence
+  mean: EmotionData;
+  max: EmotionData;
+  // Highest in this bucket's mean, independent of the neighbouring buckets
+  dominantEmotion: keyof EmotionData;
+  averageConfidence: number | null;
+}
+
+export interface EmotionTimeline {
+  bucketSeconds: number;
+  from: Date;
+  to: Date;
+  buckets: EmotionTimelineBucket[];
+}
+
+export type MoodTrendQuery = z.infer<typeof moodTrendQuerySchema>;
+export type SessionExportQuery = z.infer<typeof sessionExportQuerySchema>;
+
+// A period whose valence is far from the user's own recent baseline
+export interface MoodShift {
+  direction: "positive" | "negative";
+  // Distance from the baseline valence in standard deviations
+  zScore: number;
+  baselineValence: number;
+  // The emotion that moved furthest from its baseline mean
+  emotion: keyof EmotionData;
+}
+
+// One day or week of a user's sessions
+export interface MoodTrendPeriod {
+  start: Date;
+  sessionCount: number;
+  // Lengths of the sessions started in the period, in seconds
+  totalSessionSeconds: number;
+  averageSessionSeconds: number | null;
+  sampleCount: number;
+  // Confidence-weighted means; null for periods without samples
+  mean: EmotionData | null;
+  // From -1 (all negative emotions) to 1 (all happy)
+  valence: number | null;
+  dominantEmotion: keyof EmotionData | null;
+  shift: MoodShift | null;
+}
+
+export interface MoodTrends {
+  period: "day" | "week";
+  from: Date;
+  to: Date;
+  periods: MoodTrendPeriod[];
+}
+
+export const providerCredentialSchema = z.object({
+  apiKey: z.string().trim().min(8).max(512),
+  skipValidation: z.boolean().optional(),
+});
+
+export type ProviderCredential = typeof providerCredentials.$inferSelect;
+export type InsertProviderCredential = typeof providerCredentials.$inferInsert;
+
+export type SessionProviderSettings = z.infer<typeof sessionProviderSchema>;
 
 export type InsertEmotionAnalysis = z.infer<typeof insertEmotionAnalysisSchema>;
 export type EmotionAnalysis = typeof emotionAnalyses.$inferSelect;
+export type EmotionSample = z.infer<typeof emotionSampleSchema>;
+export type EmotionBatch = z.infer<typeof emotionBatchSchema>;
+// A sample ready to be stored, with the server-side timestamp
+export type NewEmotionSample = InsertEmotionAnalysis & { timestamp: Date };
+export type EmotionRollup = typeof emotionRollups.$inferSelect;
+export type InsertEmotionRollup = typeof emotionRollups.$inferInsert;
 
 export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
 export type ChatMessage = typeof chatMessages.$inferSelect;
 
+// Server-Sent Events of POST /api/chat/stream; `event` is the SSE event name
+// and `data` its JSON payload
+export type ChatStreamEvent =
+  | { event: "user"; data: ChatMessage }
+  | { event: "chunk"; data: { text: string } }
+  | { event: "restart"; data: Record<string, never> }
+  | { event: "done"; data: { aiMessage: ChatMessage; provider: string } }
+  | { event: "error"; data: { error: string; kind?: string } };
+
+// Everything stored about a user, as handed to them on request
+export interface UserDataExport {
+  exportedAt: Date;
+  user: PublicUser;
+  sessions: Array<Session & {
+    emotionAnalyses: EmotionAnalysis[];
+    emotionRollups: EmotionRollup[];
+    chatMessages: ChatMessage[];
+  }>;
+}
+
+// The stored rows of a user's sessions, as loaded for an export
+export interface UserDataRows {
+  sessions: Session[];
+  emotionAnalyses: EmotionAnalysis[];
+  emotionRollups: EmotionRollup[];
+  chatMessages: ChatMessage[];
+}
+
 export type EmotionData = {
   happy: number;
   sad: number;